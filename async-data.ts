@@ -1,16 +1,49 @@
+import { Clock, Duration, systemClock, toMilliseconds } from "./clock";
+import { stableStringify } from "./data-manipulation";
+
+/**
+ * Converts a duration to milliseconds, rejecting anything that is not a finite, non-negative duration.
+ */
+const toDurationMs = (duration: Duration, name: string): number => {
+  const durationMs =
+    typeof duration === "number" ||
+    (typeof duration === "object" && duration !== null)
+      ? toMilliseconds(duration)
+      : NaN;
+  if (!Number.isFinite(durationMs) || durationMs < 0) {
+    throw new RangeError(
+      `${name} must be a non-negative duration, got ${JSON.stringify(
+        duration
+      )}.`
+    );
+  }
+  return durationMs;
+};
+
+/**
+ * Options accepted by `sleep`: a `signal` interrupting the sleep, and the `clock` whose timers are used.
+ */
+export type SleepOptions = {
+  signal?: AbortSignal;
+  clock?: Clock;
+};
+
 /**
  * Asynchronous sleep function.
  *
  * Pauses the execution for a specified amount of time. This can be useful for delaying operations in asynchronous workflows.
+ * When `signal` is aborted, the sleep is interrupted and the promise rejects with the signal's reason.
+ * An invalid duration, such as a negative one, also makes the promise reject, with a `RangeError`.
  *
- * @param {number} minutes - The time to sleep in minutes.
+ * @param {Duration} duration - The time to sleep, in milliseconds or as a duration object.
+ * @param {SleepOptions} [options] - The abort signal and the clock to use.
  * @returns {Promise<void>} A promise resolving after the specified time.
  *
  * @example
  * // Example of using sleep to delay an operation
  * async function delayedGreeting() {
  *   console.log('Preparing greeting...');
- *   await sleep(0.1); // Sleeps for 6 seconds (0.1 minutes)
+ *   await sleep({ seconds: 6 });
  *   console.log('Hello, World!');
  * }
  *
@@ -19,9 +52,34 @@
  * // Preparing greeting...
  * // (waits 6 seconds)
  * // Hello, World!
+ *
+ * @example
+ * // Example of an interruptible sleep
+ * const controller = new AbortController();
+ * setTimeout(() => controller.abort(), 1000);
+ * await sleep({ seconds: 5 }, { signal: controller.signal }); // Rejects after 1 second
  */
-export async function sleep(minutes: number): Promise<void> {
-  await new Promise((resolve) => setTimeout(resolve, minutes * 60000));
+export function sleep(
+  duration: Duration,
+  options: SleepOptions = {}
+): Promise<void> {
+  const { signal, clock = systemClock } = options;
+  return new Promise((resolve, reject) => {
+    const durationMs = toDurationMs(duration, "The duration of a sleep");
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, durationMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
@@ -29,6 +87,8 @@ export async function sleep(minutes: number): Promise<void> {
  * returning an object containing arrays of resolved and rejected promises.
  *
  * Useful for managing large sets of asynchronous operations where you want to limit the number of concurrent operations.
+ * Note that promises start running as soon as they are created, so the chunks only pace how the results are awaited;
+ * use `promisePool` with task factories to actually limit how many operations run at once.
  *
  * @param {Array<Promise<unknown>>} promises - The array of promises to be executed.
  * @param {number} chunkSize - The size of each batch. If 0, all promises are executed at once.
@@ -98,15 +158,931 @@ export async function batchPromiseAllSettled(
   return finalResults;
 }
 
+/**
+ * Progress reported by `promisePool` each time a task settles.
+ */
+export type PromisePoolProgress = {
+  total: number;
+  completed: number;
+  fulfilled: number;
+  rejected: number;
+};
+
+/**
+ * Options accepted by `promisePool`.
+ *
+ * - `concurrency`: the maximum number of tasks running at the same time.
+ * - `mode`: `"settleAll"` (default) runs every task and reports each outcome; `"failFast"` rejects with the first error
+ *   and stops starting new tasks.
+ * - `onProgress`: called each time a task settles, with the progress so far, the task's result and its index.
+ * - `signal`: stops starting new tasks and rejects with the signal's reason once aborted.
+ */
+export type PromisePoolOptions<T> = {
+  concurrency: number;
+  mode?: "settleAll" | "failFast";
+  onProgress?: (
+    progress: PromisePoolProgress,
+    result: PromiseSettledResult<T>,
+    index: number
+  ) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Runs task factories with a sliding window of concurrency: a new task starts as soon as a running one settles,
+ * so at most `concurrency` tasks run at any time and a slow task never holds back the others.
+ *
+ * Unlike `batchPromiseAllSettled`, which receives promises that are already running, the tasks are only started by the pool.
+ * Each task receives an `AbortSignal` that is aborted when the pool stops early, in fail-fast mode or when `signal` is aborted.
+ *
+ * @template T - The type of the values produced by the tasks.
+ * @param {Array<(signal: AbortSignal) => Promise<T> | T>} tasks - The functions starting each piece of work.
+ * @param {PromisePoolOptions<T>} options - The concurrency, failure mode, progress callback and cancellation signal.
+ * @returns {Promise<PromiseSettledResult<T>[]>} A promise resolving with the outcome of each task, in input order.
+ *
+ * @example
+ * const urls = ['https://api.example.com/1', 'https://api.example.com/2', 'https://api.example.com/3'];
+ * const tasks = urls.map((url) => (signal) => fetch(url, { signal }).then((response) => response.json()));
+ *
+ * const results = await promisePool(tasks, {
+ *   concurrency: 2,
+ *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+ * });
+ * // Output: [{ status: 'fulfilled', value: ... }, { status: 'rejected', reason: ... }, { status: 'fulfilled', value: ... }]
+ *
+ * @example
+ * // Stopping at the first failure
+ * await promisePool(tasks, { concurrency: 2, mode: 'failFast' }).catch(console.error);
+ */
+export async function promisePool<T>(
+  tasks: Array<(signal: AbortSignal) => Promise<T> | T>,
+  options: PromisePoolOptions<T>
+): Promise<PromiseSettledResult<T>[]> {
+  const { concurrency, mode = "settleAll", onProgress, signal } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError(
+      `The concurrency of a promise pool must be a positive integer, got ${concurrency}.`
+    );
+  }
+
+  const controller = new AbortController();
+  const abortFromSignal = () => controller.abort(signal?.reason);
+  const stopped = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener(
+      "abort",
+      () => reject(controller.signal.reason),
+      { once: true }
+    );
+  });
+  if (signal?.aborted) {
+    abortFromSignal();
+  }
+  signal?.addEventListener("abort", abortFromSignal, { once: true });
+
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  const progress: PromisePoolProgress = {
+    total: tasks.length,
+    completed: 0,
+    fulfilled: 0,
+    rejected: 0,
+  };
+  let nextIndex = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (nextIndex < tasks.length && !controller.signal.aborted) {
+      const index = nextIndex++;
+      try {
+        const value = await tasks[index](controller.signal);
+        results[index] = { status: "fulfilled", value };
+        progress.fulfilled++;
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+        progress.rejected++;
+        if (mode === "failFast") {
+          controller.abort(reason);
+        }
+      }
+      progress.completed++;
+      onProgress?.({ ...progress }, results[index], index);
+    }
+  };
+
+  try {
+    const workers = Array.from(
+      { length: Math.min(concurrency, tasks.length) },
+      runWorker
+    );
+    await Promise.race([Promise.all(workers), stopped]);
+    return results;
+  } finally {
+    signal?.removeEventListener("abort", abortFromSignal);
+  }
+}
+
+/**
+ * Error thrown when an operation does not settle within its time limit.
+ */
+export class TimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`The operation timed out after ${timeoutMs}ms.`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * A unit of asynchronous work started on demand, receiving a signal aborted when its result is no longer wanted.
+ */
+export type AbortableTask<T> = (signal: AbortSignal) => Promise<T> | T;
+
+/**
+ * Starts a task, turning a synchronous throw into a rejection.
+ */
+const startTask = <T>(
+  task: AbortableTask<T>,
+  signal: AbortSignal
+): Promise<T> => new Promise<T>((resolve) => resolve(task(signal)));
+
+/**
+ * Options accepted by `withTimeout`.
+ *
+ * - `signal`: rejects with the signal's reason once aborted, aborting the task as well.
+ * - `fallback`: produces the value to resolve with when the time limit is exceeded, instead of rejecting.
+ * - `clock`: the clock whose timers are used.
+ */
+export type WithTimeoutOptions<T> = {
+  signal?: AbortSignal;
+  fallback?: (error: TimeoutError) => T | Promise<T>;
+  clock?: Clock;
+};
+
+/**
+ * Bounds the time a promise may take. Once `timeout` has elapsed, the returned promise rejects with a `TimeoutError`,
+ * or resolves with the value of `fallback` if one is given.
+ *
+ * A promise keeps running after the time limit, since it cannot be stopped. Pass a task instead to have it stopped:
+ * it is started right away and receives a signal aborted with the `TimeoutError`.
+ *
+ * @template T - The type of the value produced by the promise or task.
+ * @param {Promise<T> | AbortableTask<T>} promiseOrTask - The promise to bound, or the task to start.
+ * @param {Duration} timeout - The time limit, in milliseconds or as a duration object.
+ * @param {WithTimeoutOptions<T>} [options] - The abort signal, fallback and clock.
+ * @returns {Promise<T>} A promise settling like the promise or task, unless the time limit is exceeded first.
+ *
+ * @example
+ * try {
+ *   const response = await withTimeout((signal) => fetch('https://api.example.com/data', { signal }), 5000);
+ * } catch (error) {
+ *   if (error instanceof TimeoutError) {
+ *     // The request took more than 5 seconds and has been aborted
+ *   }
+ * }
+ *
+ * @example
+ * // Serve an empty list when the recommendations are slow
+ * const recommendations = await withTimeout(getRecommendations(userId), { seconds: 2 }, { fallback: () => [] });
+ */
+export function withTimeout<T>(
+  promiseOrTask: Promise<T> | AbortableTask<T>,
+  timeout: Duration,
+  options: WithTimeoutOptions<T> = {}
+): Promise<T> {
+  const { signal, fallback, clock = systemClock } = options;
+  const timeoutMs = toMilliseconds(timeout);
+  const controller = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    let settled = false;
+    const settle = (callback: () => void): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clock.clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      callback();
+    };
+    const onAbort = () => {
+      controller.abort(signal?.reason);
+      settle(() => reject(signal?.reason));
+    };
+    const timer = clock.setTimeout(() => {
+      const error = new TimeoutError(timeoutMs);
+      controller.abort(error);
+      settle(() =>
+        fallback
+          ? resolve(Promise.resolve(error).then(fallback))
+          : reject(error)
+      );
+    }, timeoutMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const result =
+      typeof promiseOrTask === "function"
+        ? startTask(promiseOrTask, controller.signal)
+        : promiseOrTask;
+    result.then(
+      (value) => settle(() => resolve(value)),
+      (error) => settle(() => reject(error))
+    );
+  });
+}
+
+/**
+ * A time budget shared by nested calls. Pass it down the call chain and let each level run its work
+ * within what is left, or carve a shorter budget for a sub-operation with `child`.
+ *
+ * - `expiresAt`: the time at which the deadline expires, as returned by the clock's `now`.
+ * - `signal`: aborted with a `TimeoutError` when the deadline expires, or with the parent's reason when it is aborted.
+ * - `remaining`: the number of milliseconds left, 0 once expired.
+ * - `child`: creates a deadline expiring after `duration`, but never after this one.
+ * - `run`: runs a task with `withTimeout`, bounded by the time left.
+ */
+export type Deadline = {
+  expiresAt: number;
+  signal: AbortSignal;
+  remaining: () => number;
+  child: (duration?: Duration) => Deadline;
+  run: <T>(task: AbortableTask<T>) => Promise<T>;
+};
+
+/**
+ * Creates a deadline expiring after the given duration.
+ *
+ * @param {Duration} duration - The time budget, in milliseconds or as a duration object.
+ * @param {{ signal?: AbortSignal; clock?: Clock }} [options] - A signal aborting the deadline early, and the clock to use.
+ * @returns {Deadline} The deadline.
+ *
+ * @example
+ * async function getDashboard(userId: string, deadline: Deadline) {
+ *   const user = await deadline.run((signal) => fetchUser(userId, signal));
+ *   // The widgets get at most 2 seconds, and never more than what is left of the whole budget
+ *   const widgets = await getWidgets(user, deadline.child({ seconds: 2 }));
+ *   return { user, widgets };
+ * }
+ *
+ * await getDashboard('42', createDeadline({ seconds: 5 }));
+ */
+export function createDeadline(
+  duration: Duration,
+  options: { signal?: AbortSignal; clock?: Clock } = {}
+): Deadline {
+  const { signal, clock = systemClock } = options;
+  const durationMs = Math.max(toMilliseconds(duration), 0);
+  const expiresAt = clock.now() + durationMs;
+  const controller = new AbortController();
+
+  const timer = clock.setTimeout(
+    () => controller.abort(new TimeoutError(durationMs)),
+    durationMs
+  );
+  (timer as { unref?: () => void } | undefined)?.unref?.();
+  const onAbort = () => {
+    clock.clearTimeout(timer);
+    controller.abort(signal?.reason);
+  };
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+    controller.signal.addEventListener(
+      "abort",
+      () => signal?.removeEventListener("abort", onAbort),
+      { once: true }
+    );
+  }
+
+  const remaining = (): number => Math.max(expiresAt - clock.now(), 0);
+
+  return {
+    expiresAt,
+    signal: controller.signal,
+    remaining,
+    child: (childDuration = remaining()) =>
+      createDeadline(Math.min(toMilliseconds(childDuration), remaining()), {
+        signal: controller.signal,
+        clock,
+      }),
+    run: (task) =>
+      withTimeout(task, remaining(), { signal: controller.signal, clock }),
+  };
+}
+
+/**
+ * Error thrown by `firstSuccessful` when every task fails. `errors` holds the error of each task, in input order.
+ */
+export class AllFailedError<E = unknown> extends Error {
+  constructor(public readonly errors: E[]) {
+    super(`All of the ${errors.length} tasks failed.`);
+    this.name = "AllFailedError";
+  }
+}
+
+/**
+ * Resolves with the first task to succeed, like `Promise.any`, and aborts the others.
+ * When every task fails, rejects with an `AllFailedError` collecting their errors in input order.
+ *
+ * @template T - The type of the value produced by the tasks.
+ * @template E - The type of the errors of the tasks.
+ * @param {Array<Promise<T> | AbortableTask<T>>} tasks - The promises or tasks to run. Tasks are started right away.
+ * @param {{ signal?: AbortSignal }} [options] - A signal aborting every task and rejecting with its reason.
+ * @returns {Promise<T>} A promise resolving with the value of the first task to succeed.
+ *
+ * @example
+ * // Query every mirror and keep the fastest answer
+ * const release = await firstSuccessful(
+ *   mirrors.map((mirror) => (signal: AbortSignal) => fetch(`${mirror}/latest.json`, { signal }).then((r) => r.json()))
+ * );
+ */
+export function firstSuccessful<T, E = unknown>(
+  tasks: Array<Promise<T> | AbortableTask<T>>,
+  options: { signal?: AbortSignal } = {}
+): Promise<T> {
+  return settleFirst(tasks, options, "fulfilled");
+}
+
+/**
+ * Settles like the first task to settle, like `Promise.race`, and aborts the others.
+ *
+ * @template T - The type of the value produced by the tasks.
+ * @param {AbortableTask<T>[]} tasks - The tasks to run. They are started right away.
+ * @param {{ signal?: AbortSignal }} [options] - A signal aborting every task and rejecting with its reason.
+ * @returns {Promise<T>} A promise settling with the outcome of the first task to settle.
+ *
+ * @example
+ * // Read from whichever replica answers first, and cancel the other reads
+ * const user = await raceWithCancel(replicas.map((replica) => (signal: AbortSignal) => replica.getUser(id, { signal })));
+ */
+export function raceWithCancel<T>(
+  tasks: AbortableTask<T>[],
+  options: { signal?: AbortSignal } = {}
+): Promise<T> {
+  return settleFirst(tasks, options, "settled");
+}
+
+/**
+ * Shared implementation of `firstSuccessful` and `raceWithCancel`: starts the tasks and settles with the first one
+ * to fulfill (or to settle at all), then aborts the others.
+ */
+function settleFirst<T, E>(
+  tasks: Array<Promise<T> | AbortableTask<T>>,
+  { signal }: { signal?: AbortSignal },
+  until: "fulfilled" | "settled"
+): Promise<T> {
+  const controllers = tasks.map(() => new AbortController());
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    let settled = false;
+    const settle = (callback: () => void, winnerIndex?: number): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      signal?.removeEventListener("abort", onAbort);
+      controllers.forEach((controller, index) => {
+        if (index !== winnerIndex) {
+          controller.abort(signal?.aborted ? signal.reason : undefined);
+        }
+      });
+      callback();
+    };
+    const onAbort = () => settle(() => reject(signal?.reason));
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    if (tasks.length === 0) {
+      settle(() => reject(new AllFailedError<E>([])));
+      return;
+    }
+
+    const errors: E[] = new Array(tasks.length);
+    let failures = 0;
+    tasks.forEach((task, index) => {
+      const result =
+        typeof task === "function"
+          ? startTask(task, controllers[index].signal)
+          : task;
+      result.then(
+        (value) => settle(() => resolve(value), index),
+        (error: E) => {
+          if (until === "settled") {
+            settle(() => reject(error), index);
+            return;
+          }
+          errors[index] = error;
+          failures++;
+          if (failures === tasks.length) {
+            settle(() => reject(new AllFailedError(errors)));
+          }
+        }
+      );
+    });
+  });
+}
+
+/**
+ * Options accepted by `retry`.
+ *
+ * - `maxAttempts`: the total number of attempts, including the first one (default 3).
+ * - `backoff`: how the delay grows between attempts, `"exponential"` (default) or `"linear"`.
+ * - `initialDelayMs`: the delay before the first retry (default 100).
+ * - `factor`: the growth factor of the exponential backoff (default 2).
+ * - `maxDelayMs`: the upper bound of a delay (default 30000).
+ * - `jitter`: randomizes the delays so that clients don't retry in lockstep. `"full"` (default) picks a delay between 0
+ *   and the computed one, `"equal"` between half of it and all of it, and `"none"` keeps it as is.
+ * - `shouldRetry`: decides whether a failed attempt is retried. Every error is retried by default.
+ * - `timeoutMs`: the time limit of each attempt. An attempt exceeding it fails with a `TimeoutError` and its signal is aborted.
+ * - `onRetry`: called before waiting for the next attempt, with the error, the number of the failed attempt and the delay.
+ * - `signal`: stops retrying and rejects with the signal's reason once aborted, without waiting for the current
+ *   attempt to settle, so attempts ignoring their signal cannot delay it.
+ * - `clock`: the clock whose timers are used for the delays and timeouts.
+ */
+export type RetryOptions = {
+  maxAttempts?: number;
+  backoff?: "exponential" | "linear";
+  initialDelayMs?: number;
+  factor?: number;
+  maxDelayMs?: number;
+  jitter?: "none" | "full" | "equal";
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  timeoutMs?: number;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal;
+  clock?: Clock;
+};
+
+/**
+ * Calls `fn` until it succeeds, waiting longer between each failed attempt.
+ * When the attempts are exhausted, or `shouldRetry` returns false, the last error is rethrown as is.
+ *
+ * `fn` receives the number of the current attempt, starting at 1, and a signal aborted when the attempt times out
+ * or when `signal` is aborted.
+ *
+ * @template T - The type of the value produced by `fn`.
+ * @param {(attempt: number, signal: AbortSignal) => Promise<T> | T} fn - The operation to attempt.
+ * @param {RetryOptions} [options] - The attempts, backoff, jitter, timeout and hooks.
+ * @returns {Promise<T>} A promise resolving with the value of the first successful attempt.
+ *
+ * @example
+ * const data = await retry(
+ *   (attempt, signal) => fetch('https://api.example.com/data', { signal }).then((response) => response.json()),
+ *   {
+ *     maxAttempts: 5,
+ *     timeoutMs: 2000,
+ *     shouldRetry: (error) => !(error instanceof SyntaxError),
+ *     onRetry: (error, attempt, delayMs) => console.warn(`Attempt ${attempt} failed, retrying in ${delayMs}ms`),
+ *   }
+ * );
+ */
+export async function retry<T>(
+  fn: (attempt: number, signal: AbortSignal) => Promise<T> | T,
+  options: RetryOptions = {}
+): Promise<T> {
+  const {
+    maxAttempts = 3,
+    backoff = "exponential",
+    initialDelayMs = 100,
+    factor = 2,
+    maxDelayMs = 30000,
+    jitter = "full",
+    shouldRetry = () => true,
+    timeoutMs,
+    onRetry,
+    signal,
+    clock = systemClock,
+  } = options;
+
+  const getDelay = (attempt: number): number => {
+    const baseDelay =
+      backoff === "linear"
+        ? initialDelayMs * attempt
+        : initialDelayMs * factor ** (attempt - 1);
+    const delay = Math.min(baseDelay, maxDelayMs);
+    if (jitter === "full") {
+      return Math.random() * delay;
+    }
+    if (jitter === "equal") {
+      return delay / 2 + Math.random() * (delay / 2);
+    }
+    return delay;
+  };
+
+  const runAttempt = async (attempt: number): Promise<T> => {
+    const controller = new AbortController();
+    let abortFromSignal = () => {};
+    let timer: unknown;
+
+    // Rejects as soon as the attempt times out or `signal` is aborted, whether the attempt honours its signal or not.
+    const interruption = new Promise<never>((_, reject) => {
+      abortFromSignal = () => {
+        controller.abort(signal?.reason);
+        reject(signal?.reason);
+      };
+      if (timeoutMs !== undefined) {
+        timer = clock.setTimeout(() => {
+          const error = new TimeoutError(timeoutMs);
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      }
+    });
+    signal?.addEventListener("abort", abortFromSignal, { once: true });
+
+    try {
+      return await Promise.race([
+        Promise.resolve().then(() => fn(attempt, controller.signal)),
+        interruption,
+      ]);
+    } finally {
+      clock.clearTimeout(timer);
+      signal?.removeEventListener("abort", abortFromSignal);
+    }
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    try {
+      return await runAttempt(attempt);
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        attempt >= maxAttempts ||
+        !shouldRetry(error, attempt)
+      ) {
+        throw error;
+      }
+      const delay = getDelay(attempt);
+      onRetry?.(error, attempt, delay);
+      await sleep({ ms: delay }, { signal, clock });
+    }
+  }
+}
+
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+/**
+ * Error thrown by a function wrapped with `circuitBreaker` while its circuit is open, or while it is half-open
+ * and all its trial calls are in progress.
+ * `retryAt` is the time the circuit becomes half-open, in milliseconds since the epoch, and is `undefined`
+ * while it is half-open already: calls are let through again once the trial calls settle.
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: number | undefined) {
+    super(
+      retryAt === undefined
+        ? "The circuit is half-open, calls are rejected until its trial calls settle."
+        : `The circuit is open, calls are rejected until ${new Date(
+            retryAt
+          ).toISOString()}.`
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Options accepted by `circuitBreaker`.
+ *
+ * - `failureThreshold`: the number of consecutive failures opening the circuit (default 5).
+ * - `coolDownMs`: how long the circuit stays open before letting trial calls through (default 30000).
+ * - `halfOpenMaxCalls`: the number of trial calls allowed at the same time while half-open (default 1).
+ * - `successThreshold`: the number of successful trial calls closing the circuit again (default 1).
+ * - `isFailure`: decides whether an error counts as a failure. Every error counts by default.
+ * - `onStateChange`: called whenever the circuit changes state.
+ * - `clock`: the clock used to measure the cool-down period.
+ */
+export type CircuitBreakerOptions = {
+  failureThreshold?: number;
+  coolDownMs?: number;
+  halfOpenMaxCalls?: number;
+  successThreshold?: number;
+  isFailure?: (error: unknown) => boolean;
+  onStateChange?: (state: CircuitState, previousState: CircuitState) => void;
+  clock?: Clock;
+};
+
+/**
+ * Wraps a function with a circuit breaker, so that a failing dependency is given time to recover
+ * instead of being flooded with calls that are bound to fail.
+ *
+ * The circuit starts closed and lets every call through. After `failureThreshold` consecutive failures it opens,
+ * and calls are rejected right away with a `CircuitOpenError`. Once `coolDownMs` has elapsed it becomes half-open
+ * and lets a few trial calls through: their success closes the circuit, and a failure opens it again.
+ * Only the calls started in the current state count: a call started while closed that settles once the circuit
+ * has opened, or become half-open, is ignored.
+ *
+ * @template A - The types of the arguments of the function.
+ * @template R - The type of the value produced by the function.
+ * @param {(...args: A) => Promise<R> | R} fn - The function to protect.
+ * @param {CircuitBreakerOptions} [options] - The thresholds, cool-down period and state change listener.
+ * @returns The wrapped function, with `getState` and `reset` methods.
+ *
+ * @example
+ * const getRates = circuitBreaker(fetchRates, {
+ *   failureThreshold: 3,
+ *   coolDownMs: 10000,
+ *   onStateChange: (state, previousState) => console.log(`Rates circuit: ${previousState} -> ${state}`),
+ * });
+ *
+ * try {
+ *   await getRates('EUR');
+ * } catch (error) {
+ *   if (error instanceof CircuitOpenError) {
+ *     // Serve cached rates until the circuit closes again.
+ *   }
+ * }
+ */
+export function circuitBreaker<A extends any[], R>(
+  fn: (...args: A) => Promise<R> | R,
+  options: CircuitBreakerOptions = {}
+): ((...args: A) => Promise<R>) & {
+  getState: () => CircuitState;
+  reset: () => void;
+} {
+  const {
+    failureThreshold = 5,
+    coolDownMs = 30000,
+    halfOpenMaxCalls = 1,
+    successThreshold = 1,
+    isFailure = () => true,
+    onStateChange,
+    clock = systemClock,
+  } = options;
+
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let successes = 0;
+  let trialCalls = 0;
+  let openedAt = 0;
+  // Changes with every transition, so that the outcome of a call started in a previous state can be ignored.
+  let generation = 0;
+
+  const transition = (nextState: CircuitState): void => {
+    if (nextState === state) {
+      return;
+    }
+    const previousState = state;
+    state = nextState;
+    generation++;
+    failures = 0;
+    successes = 0;
+    trialCalls = 0;
+    if (nextState === "open") {
+      openedAt = clock.now();
+    }
+    onStateChange?.(nextState, previousState);
+  };
+
+  const getState = (): CircuitState => {
+    if (state === "open" && clock.now() - openedAt >= coolDownMs) {
+      transition("halfOpen");
+    }
+    return state;
+  };
+
+  const onSuccess = (): void => {
+    if (state === "halfOpen") {
+      successes++;
+      if (successes >= successThreshold) {
+        transition("closed");
+      }
+      return;
+    }
+    failures = 0;
+  };
+
+  const onFailure = (): void => {
+    if (state === "halfOpen") {
+      transition("open");
+      return;
+    }
+    failures++;
+    if (state === "closed" && failures >= failureThreshold) {
+      transition("open");
+    }
+  };
+
+  const protectedFunc = async (...args: A): Promise<R> => {
+    const currentState = getState();
+    if (
+      currentState === "open" ||
+      (currentState === "halfOpen" && trialCalls >= halfOpenMaxCalls)
+    ) {
+      throw new CircuitOpenError(
+        currentState === "open" ? openedAt + coolDownMs : undefined
+      );
+    }
+
+    const callGeneration = generation;
+    const isCurrent = () => generation === callGeneration;
+    if (currentState === "halfOpen") {
+      trialCalls++;
+    }
+    try {
+      const result = await fn(...args);
+      if (isCurrent()) {
+        onSuccess();
+      }
+      return result;
+    } catch (error) {
+      if (isCurrent()) {
+        if (isFailure(error)) {
+          onFailure();
+        } else {
+          onSuccess();
+        }
+      }
+      throw error;
+    } finally {
+      if (currentState === "halfOpen" && isCurrent()) {
+        trialCalls--;
+      }
+    }
+  };
+
+  const reset = (): void => {
+    transition("closed");
+    failures = 0;
+  };
+
+  return Object.assign(protectedFunc, { getState, reset });
+}
+
+/**
+ * A cache entry as kept by an `AsyncCacheStorage`: the resolved value along with the time it was stored,
+ * in milliseconds since the epoch, the TTL it was stored with, in milliseconds, and its tags.
+ * Entries must survive a JSON round trip to be stored by a persistent backend.
+ */
+export type AsyncCacheStorageEntry<V> = {
+  value: V;
+  timestamp: number;
+  ttl?: number;
+  tags?: string[];
+};
+
+/**
+ * A storage backend for `asyncCache`. Each storage holds the entries of one namespace,
+ * so a storage shouldn't be shared between functions whose arguments may produce the same keys.
+ */
+export type AsyncCacheStorage<V> = {
+  get: (key: string) => Promise<AsyncCacheStorageEntry<V> | undefined>;
+  set: (key: string, entry: AsyncCacheStorageEntry<V>) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+  keys: () => Promise<string[]>;
+};
+
+/**
+ * Creates an in-memory `AsyncCacheStorage`. Entries go through a JSON round trip on the way in,
+ * so it behaves like the serializing backends, which makes it a drop-in replacement for one in tests:
+ * a value that cannot be serialized is rejected, and a value that changes in the round trip, such as a Date,
+ * comes back changed.
+ *
+ * @template V - The type of the cached values.
+ * @returns {AsyncCacheStorage<V>} A storage keeping its entries in a `Map`.
+ *
+ * @example
+ * const storage = createMemoryCacheStorage<User>();
+ * const getUser = asyncCache(fetchUser, { ttl: { minutes: 5 }, storage });
+ */
+export function createMemoryCacheStorage<V>(): AsyncCacheStorage<V> {
+  const entries = new Map<string, AsyncCacheStorageEntry<V>>();
+
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      return entry === undefined ? undefined : structuredClone(entry);
+    },
+    set: async (key, entry) => {
+      entries.set(key, JSON.parse(JSON.stringify(entry)));
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    clear: async () => {
+      entries.clear();
+    },
+    keys: async () => Array.from(entries.keys()),
+  };
+}
+
+/**
+ * Options accepted by `asyncCache`.
+ *
+ * - `ttl`: the Time-To-Live (TTL) for cache entries, in milliseconds or as a duration object such as `{ minutes: 5 }`.
+ *   Entries never expire when omitted.
+ * - `cacheRejections`: keeps rejected results in the cache like resolved ones. By default a rejection is dropped,
+ *   so the next call tries again.
+ * - `staleWhileRevalidate`: once an entry has expired, keeps returning its value immediately while a single
+ *   background call refreshes it. A failed refresh keeps the stale value.
+ * - `maxEntries`: the maximum number of entries kept in the cache.
+ * - `maxSize`: the maximum total size of the cached values, as measured by `sizeOf`.
+ * - `sizeOf`: measures a resolved value. Defaults to the length of its JSON representation. Values are only measured
+ *   when `maxSize` or `sizeOf` is given.
+ * - `eviction`: the entries dropped when a bound is exceeded, `"lru"` (least recently used, default)
+ *   or `"lfu"` (least frequently used). The entry just added is only dropped if it exceeds the bounds on its own.
+ * - `pruneInterval`: removes the expired entries at the given interval, in milliseconds or as a duration object.
+ *   Stale entries are kept when `staleWhileRevalidate` is set, since they are still served.
+ * - `storage`: a persistent `AsyncCacheStorage` behind the in-process cache. It is read when an entry is not
+ *   in the process yet and written whenever a value is resolved, so cached results survive restarts and can be
+ *   shared between processes. The bounds above only apply to the in-process cache.
+ * - `onStorageError`: called when the storage fails. A failed read counts as a miss and a failed write only
+ *   loses the persisted copy, so the calls themselves never fail because of the storage. Errors are ignored by default.
+ * - `keyResolver`: builds the cache key of a call from its arguments. Defaults to `stableStringify` of the arguments,
+ *   which ignores the order of object keys, supports Maps, Sets, Dates, BigInts and circular references, serializes
+ *   objects with a `toJSON` method, such as URLs, by its result, and tells functions apart by identity.
+ * - `tags`: the tags of the entry created by a call, so that related entries can be dropped at once with `invalidateTag`.
+ * - `clock`: the clock used to timestamp the entries and to schedule the pruning, a virtual one making expiry testable.
+ */
+export type AsyncCacheOptions<R = unknown, T extends any[] = any[]> = {
+  ttl?: Duration;
+  cacheRejections?: boolean;
+  staleWhileRevalidate?: boolean;
+  maxEntries?: number;
+  maxSize?: number;
+  sizeOf?: (value: R, key: string) => number;
+  eviction?: "lru" | "lfu";
+  pruneInterval?: Duration;
+  storage?: AsyncCacheStorage<R>;
+  onStorageError?: (
+    error: unknown,
+    operation: "get" | "set" | "delete" | "clear" | "invalidateTag"
+  ) => void;
+  keyResolver?: (...args: T) => string;
+  tags?: (...args: T) => string[];
+  clock?: Clock;
+};
+
+/**
+ * Counters reported by the `stats` method of a function memoized with `asyncCache`.
+ * `size` is the number of entries and `totalSize` the sum of their `sizeOf` measures,
+ * only reported when the values are measured, that is when `maxSize` or `sizeOf` is given.
+ */
+export type AsyncCacheStats = {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  totalSize?: number;
+  hitRatio: number;
+};
+
+/**
+ * A function memoized with `asyncCache`, along with the methods managing its cache.
+ */
+export type AsyncCachedFunction<T extends any[], R> = ((
+  ...args: T
+) => Promise<R>) & {
+  clearCache: () => void;
+  deleteCache: (...args: T) => void;
+  refresh: (...args: T) => Promise<R>;
+  invalidateTag: (tag: string) => Promise<void>;
+  prune: () => number;
+  stats: () => AsyncCacheStats;
+  dispose: () => void;
+};
+
+type AsyncCacheEntry<R> = {
+  timestamp: number;
+  value: Promise<R>;
+  status: "pending" | "resolved" | "rejected";
+  refreshing?: Promise<R>;
+  size: number;
+  hits: number;
+  tags: string[];
+};
+
 /**
  * Creates a memoized version of a given asynchronous function with an optional Time-To-Live (TTL) for the cache entries.
- * The returned memoized function also includes methods for clearing the entire cache or deleting specific cache entries.
+ * The returned memoized function also includes methods for clearing the entire cache, deleting specific cache entries
+ * and forcing a reload of an entry.
+ *
+ * Concurrent calls with the same arguments share a single in-flight call to `func`, so a burst of identical requests
+ * only reaches the upstream once. Rejected results are not cached unless `cacheRejections` is set.
+ *
+ * The cache can be bounded with `maxEntries` and `maxSize`, and `stats()` reports its hits, misses and evictions.
+ * When `pruneInterval` is set, call `dispose()` once the cache is no longer needed to stop the pruning timer.
+ * With a `storage`, `deleteCache`, `clearCache` and `invalidateTag` also remove the entries from it. The storage is updated
+ * in the background, in the order of the calls, and the lookups made in the meantime wait for it;
+ * `invalidateTag` resolves once it is updated. A call in flight when its entry is deleted does not store its result.
+ * `invalidateTag` reads every stored entry to find its tags, so it is meant for occasional invalidations.
  *
  * @template T - The types of the arguments for the function.
  * @template R - The return type of the function, which can be a promise or a direct value.
  * @param {(...args: T[]) => Promise<R> | R} func - The asynchronous function to memoize.
- * @param {keyof typeof CACHE_TIME_OPTIONS} [ttl] - The Time-To-Live (TTL) for cache entries, in minutes.
- * @returns {Function & {clearCache: Function, deleteCache: Function}} A memoized version of the provided function with additional `clearCache` and `deleteCache` methods. The memoized function returns a promise resolving to the cached value or the new value if the cache is expired or not set.
+ * @param {AsyncCacheOptions | number} [ttlOrOptions] - The TTL, bounds, storage and keys of the cache. A bare number is
+ * the deprecated form of `{ ttl: { minutes } }`, kept from when the TTL was given in minutes.
+ * @returns {AsyncCachedFunction<T, R>} A memoized version of the provided function with additional `clearCache`, `deleteCache`, `refresh`, `prune`, `stats` and `dispose` methods. The memoized function returns a promise resolving to the cached value or the new value if the cache is expired or not set.
+ * @throws {RangeError} If `ttl` or `pruneInterval` is not a non-negative duration.
  *
  * @example
  * // Example of memoizing an async function that fetches data with a TTL.
@@ -116,7 +1092,7 @@ export async function batchPromiseAllSettled(
  * }
  *
  * // Create a memoized version of fetchData with a TTL of 5 minutes.
- * const memoizedFetchData = asyncCache(fetchData, 5);
+ * const memoizedFetchData = asyncCache(fetchData, { ttl: { minutes: 5 } });
  *
  * // Use the memoized function to fetch data. Subsequent calls with the same arguments
  * // within 5 minutes will return the cached result.
@@ -127,47 +1103,423 @@ export async function batchPromiseAllSettled(
  *
  * // Example of clearing the entire cache.
  * memoizedFetchData.clearCache();
+ *
+ * @example
+ * // Serving stale data while a single background call refreshes it.
+ * const cachedFetchData = asyncCache(fetchData, { ttl: { minutes: 5 }, staleWhileRevalidate: true });
+ *
+ * // Forcing a reload, for example after the data was updated.
+ * await cachedFetchData.refresh('https://api.example.com/data');
+ *
+ * @example
+ * // Keeping at most 1000 entries, dropping the least recently used ones.
+ * const boundedFetchData = asyncCache(fetchData, {
+ *   ttl: { minutes: 5 },
+ *   maxEntries: 1000,
+ *   pruneInterval: { minutes: 10 },
+ * });
+ * console.log(boundedFetchData.stats()); // Output: { hits: 0, misses: 0, evictions: 0, size: 0, hitRatio: 0 }
+ *
+ * @example
+ * // Keeping the results in a file, so they survive the next run of a CLI.
+ * import { createFileCacheStorage } from './file-cache-storage';
+ * const persistentFetchData = asyncCache(fetchData, {
+ *   ttl: { minutes: 60 },
+ *   storage: createFileCacheStorage({ directory: '.cache', namespace: 'fetch-data' }),
+ * });
+ *
+ * @example
+ * // Dropping every cached lookup related to a user once it changes.
+ * const getUserOrders = asyncCache(fetchUserOrders, {
+ *   keyResolver: (query) => `${query.userId}:${query.status}`,
+ *   tags: (query) => [`user:${query.userId}`],
+ * });
+ * await getUserOrders.invalidateTag('user:42');
  */
 export function asyncCache<T extends any[], R>(
   func: (...args: T) => Promise<R> | R,
-  ttl?: number
-): ((...args: T) => Promise<R>) & {
-  clearCache: () => void;
-  deleteCache: (...args: T) => void;
-} {
-  const cache = new Map<string, { timestamp: number; value: Promise<R> | R }>();
-  const millisecondsPerMinute = 60 * 1000;
+  options?: AsyncCacheOptions<R, T>
+): AsyncCachedFunction<T, R>;
+/**
+ * @deprecated Pass the TTL as `{ ttl: { minutes } }` instead of a number of minutes.
+ */
+export function asyncCache<T extends any[], R>(
+  func: (...args: T) => Promise<R> | R,
+  ttlMinutes: number
+): AsyncCachedFunction<T, R>;
+export function asyncCache<T extends any[], R>(
+  func: (...args: T) => Promise<R> | R,
+  ttlOrOptions: number | AsyncCacheOptions<R, T> = {}
+): AsyncCachedFunction<T, R> {
+  const options: AsyncCacheOptions<R, T> =
+    typeof ttlOrOptions === "number"
+      ? { ttl: { minutes: ttlOrOptions } }
+      : ttlOrOptions;
+  const {
+    ttl: ttlDuration,
+    cacheRejections = false,
+    staleWhileRevalidate = false,
+    maxEntries,
+    maxSize,
+    sizeOf: customSizeOf,
+    eviction = "lru",
+    pruneInterval,
+    storage,
+    onStorageError = () => {},
+    keyResolver = (...args: T) =>
+      args.length === 0 ? "genericKey" : stableStringify(args),
+    tags: resolveTags = () => [],
+    clock = systemClock,
+  } = options;
+  const cache = new Map<string, AsyncCacheEntry<R>>();
+  const measuresSize = maxSize !== undefined || customSizeOf !== undefined;
+  const sizeOf =
+    customSizeOf ?? ((value: R) => JSON.stringify(value)?.length ?? 0);
+  const ttl =
+    ttlDuration === undefined ? undefined : toDurationMs(ttlDuration, "ttl");
+  const pruneIntervalMs =
+    pruneInterval === undefined
+      ? undefined
+      : toDurationMs(pruneInterval, "pruneInterval");
+  const tagIndex = new Map<string, Set<string>>();
+  const keyGenerations = new Map<string, number>();
+  const tagGenerations = new Map<string, number>();
+  let cacheGeneration = 0;
+  let storageUpdates: Promise<void> = Promise.resolve();
+  const counters = { hits: 0, misses: 0, evictions: 0 };
+  let totalSize = 0;
 
-  const isEntryExpired = (timestamp: number): boolean => {
-    if (ttl === undefined) {
+  const isEntryExpired = (timestamp: number, entryTtl = ttl): boolean => {
+    if (entryTtl === undefined) {
       return false;
     }
-    const timeDifference = Date.now() - timestamp;
-    const ttlMilliseconds = ttl * millisecondsPerMinute;
-    return timeDifference > ttlMilliseconds;
+    return clock.now() - timestamp > entryTtl;
+  };
+
+  const getKey = (args: T): string => keyResolver(...args);
+
+  const isOverflowing = (): boolean =>
+    (maxEntries !== undefined && cache.size > maxEntries) ||
+    (maxSize !== undefined && totalSize > maxSize);
+
+  const removeEntry = (key: string): void => {
+    const entry = cache.get(key);
+    if (entry) {
+      totalSize -= entry.size;
+      cache.delete(key);
+      entry.tags.forEach((tag) => {
+        const keys = tagIndex.get(tag);
+        keys?.delete(key);
+        if (keys?.size === 0) {
+          tagIndex.delete(tag);
+        }
+      });
+    }
+  };
+
+  const pickEvictionVictim = (protectedKey: string): string | undefined => {
+    let victim: string | undefined;
+    let fewestHits = Infinity;
+    for (const [key, entry] of cache) {
+      if (key === protectedKey) {
+        continue;
+      }
+      if (eviction === "lru") {
+        return key;
+      }
+      if (entry.hits < fewestHits) {
+        victim = key;
+        fewestHits = entry.hits;
+      }
+    }
+    return victim ?? (cache.has(protectedKey) ? protectedKey : undefined);
+  };
+
+  const evictOverflow = (protectedKey: string): void => {
+    while (isOverflowing()) {
+      const victim = pickEvictionVictim(protectedKey);
+      if (victim === undefined) {
+        return;
+      }
+      removeEntry(victim);
+      counters.evictions++;
+    }
+  };
+
+  const storeEntry = (key: string, entry: AsyncCacheEntry<R>): void => {
+    removeEntry(key);
+    cache.set(key, entry);
+    entry.tags.forEach((tag) => {
+      tagIndex.set(tag, (tagIndex.get(tag) ?? new Set()).add(key));
+    });
+    evictOverflow(key);
+  };
+
+  const markResolved = (
+    key: string,
+    entry: AsyncCacheEntry<R>,
+    value: R,
+    timestamp = clock.now()
+  ): void => {
+    entry.timestamp = timestamp;
+    entry.status = "resolved";
+    if (measuresSize && cache.get(key) === entry) {
+      entry.size = sizeOf(value, key);
+      totalSize += entry.size;
+      evictOverflow(key);
+    }
+  };
+
+  const touch = (key: string, entry: AsyncCacheEntry<R>): void => {
+    counters.hits++;
+    entry.hits++;
+    if (eviction === "lru") {
+      cache.delete(key);
+      cache.set(key, entry);
+    }
+  };
+
+  /**
+   * Identifies the entries a key has held: deleting the key, invalidating one of its tags or clearing the cache
+   * changes it, so that a call started before can tell that its result must not be stored.
+   */
+  const versionOf = (key: string, tags: string[]): string =>
+    JSON.stringify([
+      cacheGeneration,
+      keyGenerations.get(key) ?? 0,
+      ...tags.map((tag) => tagGenerations.get(tag) ?? 0),
+    ]);
+
+  const bumpGeneration = (generations: Map<string, number>, name: string) =>
+    generations.set(name, (generations.get(name) ?? 0) + 1);
+
+  /**
+   * Queues an update of the storage after the previous ones, reporting its failure instead of rejecting.
+   */
+  const updateStorage = (
+    operation: "set" | "delete" | "clear" | "invalidateTag",
+    update: (storage: AsyncCacheStorage<R>) => Promise<void>
+  ): Promise<void> => {
+    if (storage) {
+      storageUpdates = storageUpdates.then(() =>
+        update(storage).catch((error) => onStorageError(error, operation))
+      );
+    }
+    return storageUpdates;
+  };
+
+  const readStorageEntry = async (
+    key: string
+  ): Promise<AsyncCacheStorageEntry<R> | undefined> => {
+    if (!storage) {
+      return undefined;
+    }
+    await storageUpdates;
+    try {
+      return await storage.get(key);
+    } catch (error) {
+      onStorageError(error, "get");
+      return undefined;
+    }
+  };
+
+  const callAndStore = async (key: string, args: T): Promise<R> => {
+    const tags = resolveTags(...args);
+    const version = versionOf(key, tags);
+    const value = await func(...args);
+    if (versionOf(key, tags) === version) {
+      const entry = { value, timestamp: clock.now(), ttl, tags };
+      updateStorage("set", (storage) => storage.set(key, entry));
+    }
+    return value;
+  };
+
+  const readThrough = async (
+    key: string,
+    args: T,
+    readStorage: boolean
+  ): Promise<AsyncCacheStorageEntry<R>> => {
+    if (readStorage) {
+      const stored = await readStorageEntry(key);
+      if (stored && !isEntryExpired(stored.timestamp, stored.ttl)) {
+        counters.hits++;
+        return stored;
+      }
+      counters.misses++;
+    }
+    return { value: await callAndStore(key, args), timestamp: clock.now() };
+  };
+
+  const load = (key: string, args: T, readStorage: boolean): Promise<R> => {
+    const loaded = readThrough(key, args, readStorage);
+    const value = loaded.then((stored) => stored.value);
+    const entry: AsyncCacheEntry<R> = {
+      timestamp: clock.now(),
+      value,
+      status: "pending",
+      size: 0,
+      hits: 0,
+      tags: resolveTags(...args),
+    };
+    storeEntry(key, entry);
+
+    loaded.then(
+      (stored) => markResolved(key, entry, stored.value, stored.timestamp),
+      () => {
+        entry.timestamp = clock.now();
+        entry.status = "rejected";
+        if (!cacheRejections && cache.get(key) === entry) {
+          removeEntry(key);
+        }
+      }
+    );
+    return value;
+  };
+
+  const revalidate = (
+    key: string,
+    entry: AsyncCacheEntry<R>,
+    args: T
+  ): Promise<R> => {
+    if (entry.refreshing) {
+      return entry.refreshing;
+    }
+
+    const refreshing = callAndStore(key, args);
+    entry.refreshing = refreshing;
+    refreshing.then(
+      (value) => {
+        if (cache.get(key) === entry) {
+          const freshEntry: AsyncCacheEntry<R> = {
+            timestamp: clock.now(),
+            value: Promise.resolve(value),
+            status: "pending",
+            size: 0,
+            hits: entry.hits,
+            tags: entry.tags,
+          };
+          storeEntry(key, freshEntry);
+          markResolved(key, freshEntry, value);
+        }
+      },
+      () => {
+        entry.refreshing = undefined;
+      }
+    );
+    return refreshing;
   };
 
   const memoizedFunc = async (...args: T): Promise<R> => {
-    const key = args.length === 0 ? "genericKey" : JSON.stringify(args);
+    const key = getKey(args);
     const entry = cache.get(key);
 
-    if (entry && !isEntryExpired(entry.timestamp)) {
-      return entry.value as R;
+    if (entry) {
+      if (entry.status === "pending" || !isEntryExpired(entry.timestamp)) {
+        touch(key, entry);
+        return entry.value;
+      }
+      if (staleWhileRevalidate && entry.status === "resolved") {
+        touch(key, entry);
+        revalidate(key, entry, args);
+        return entry.value;
+      }
+      removeEntry(key);
     }
 
-    const result = await func(...args);
-    cache.set(key, { timestamp: Date.now(), value: result });
-    return result;
+    return load(key, args, true);
   };
 
-  const deleteCache = (...args: T) => {
-    const cacheKey = args.length === 0 ? "genericKey" : JSON.stringify(args);
-    cache.delete(cacheKey);
+  const deleteCache = (...args: T): void => {
+    const key = getKey(args);
+    removeEntry(key);
+    bumpGeneration(keyGenerations, key);
+    updateStorage("delete", (storage) => storage.delete(key));
   };
 
-  const clearCache = () => {
+  const clearCache = (): void => {
     cache.clear();
+    tagIndex.clear();
+    totalSize = 0;
+    keyGenerations.clear();
+    tagGenerations.clear();
+    cacheGeneration++;
+    updateStorage("clear", (storage) => storage.clear());
+  };
+
+  const refresh = (...args: T): Promise<R> => {
+    const key = getKey(args);
+    const entry = cache.get(key);
+
+    if (entry?.status === "pending") {
+      return entry.value;
+    }
+    if (entry?.status === "resolved") {
+      return revalidate(key, entry, args);
+    }
+    return load(key, args, false);
+  };
+
+  const invalidateTag = (tag: string): Promise<void> => {
+    Array.from(tagIndex.get(tag) ?? []).forEach(removeEntry);
+    bumpGeneration(tagGenerations, tag);
+    return updateStorage("invalidateTag", async (storage) => {
+      for (const key of await storage.keys()) {
+        const stored = await storage.get(key);
+        if (stored?.tags?.includes(tag)) {
+          await storage.delete(key);
+        }
+      }
+    });
+  };
+
+  const prune = (): number => {
+    const expiredKeys = Array.from(cache.entries())
+      .filter(
+        ([, entry]) =>
+          entry.status !== "pending" &&
+          isEntryExpired(entry.timestamp) &&
+          !(staleWhileRevalidate && entry.status === "resolved")
+      )
+      .map(([key]) => key);
+    expiredKeys.forEach(removeEntry);
+    return expiredKeys.length;
+  };
+
+  const stats = (): AsyncCacheStats => {
+    const lookups = counters.hits + counters.misses;
+    return {
+      ...counters,
+      size: cache.size,
+      ...(measuresSize && { totalSize }),
+      hitRatio: lookups === 0 ? 0 : counters.hits / lookups,
+    };
+  };
+
+  let pruneTimer: unknown;
+  const schedulePrune = (): void => {
+    if (pruneIntervalMs === undefined) {
+      return;
+    }
+    pruneTimer = clock.setTimeout(() => {
+      prune();
+      schedulePrune();
+    }, pruneIntervalMs);
+    (pruneTimer as { unref?: () => void } | undefined)?.unref?.();
+  };
+  schedulePrune();
+
+  const dispose = () => {
+    clock.clearTimeout(pruneTimer);
+    pruneTimer = undefined;
   };
 
-  return Object.assign(memoizedFunc, { clearCache, deleteCache });
+  return Object.assign(memoizedFunc, {
+    clearCache,
+    deleteCache,
+    refresh,
+    invalidateTag,
+    prune,
+    stats,
+    dispose,
+  });
 }
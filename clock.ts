@@ -0,0 +1,147 @@
+/**
+ * A source of time for the time-dependent utilities of the library: the current time and timers.
+ *
+ * - `now`: the current time, in milliseconds since the epoch.
+ * - `setTimeout` / `clearTimeout`: schedules a callback after a number of milliseconds, and cancels it.
+ */
+export type Clock = {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (timer: unknown) => void;
+};
+
+/**
+ * A duration, either a number of milliseconds or an object adding up its units.
+ * A bare number always means milliseconds in this library, except for the deprecated
+ * `asyncCache(func, ttlMinutes)` form, which still reads a number given instead of the options as minutes.
+ *
+ * @example
+ * const timeout: Duration = 1500;
+ * const sameTimeout: Duration = { seconds: 1, ms: 500 };
+ */
+export type Duration = number | DurationObject;
+
+export type DurationObject = {
+  ms?: number;
+  seconds?: number;
+  minutes?: number;
+};
+
+/**
+ * Converts a duration to milliseconds.
+ *
+ * @param {Duration} duration - A number of milliseconds, or an object adding up its units.
+ * @returns {number} The duration in milliseconds.
+ *
+ * @example
+ * toMilliseconds({ minutes: 1, seconds: 30 }); // 90000
+ * toMilliseconds(250); // 250
+ */
+export function toMilliseconds(duration: Duration): number {
+  if (typeof duration === "number") {
+    return duration;
+  }
+  const { ms = 0, seconds = 0, minutes = 0 } = duration;
+  return ms + seconds * 1000 + minutes * 60000;
+}
+
+/**
+ * The clock used by default: the system time and the global timers.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * A clock whose time only moves when `advance` is called, running the timers that fall due on the way.
+ * `pendingTimers` returns the number of timers that have not run yet.
+ */
+export type VirtualClock = Clock & {
+  advance: (duration: Duration) => Promise<void>;
+  pendingTimers: () => number;
+};
+
+/**
+ * Creates a virtual clock, so that code waiting on timers or comparing timestamps can be tested
+ * without actually waiting.
+ *
+ * `advance` runs the due timers in order, setting the time to each timer's due time before calling it,
+ * and lets pending promise callbacks run after each one, so that timers scheduled in reaction to a timer
+ * also run if they fall due within the advanced duration.
+ *
+ * @param {{ now?: number | Date }} [options] - The initial time, the epoch by default.
+ * @returns {VirtualClock} The virtual clock.
+ *
+ * @example
+ * const clock = createVirtualClock({ now: new Date("2024-01-01T00:00:00Z") });
+ * const getRates = asyncCache(fetchRates, { ttl: { minutes: 5 }, clock });
+ *
+ * await getRates("EUR"); // Calls fetchRates
+ * await clock.advance({ minutes: 6 });
+ * await getRates("EUR"); // Expired, calls fetchRates again
+ */
+export function createVirtualClock(
+  options: { now?: number | Date } = {}
+): VirtualClock {
+  const { now: initialTime = 0 } = options;
+
+  type VirtualTimer = { id: number; dueTime: number; callback: () => void };
+
+  let currentTime = Number(initialTime);
+  let nextTimerId = 1;
+  const timers = new Map<number, VirtualTimer>();
+
+  const nextDueTimer = (until: number): VirtualTimer | undefined => {
+    let dueTimer: VirtualTimer | undefined;
+    timers.forEach((timer) => {
+      if (
+        timer.dueTime <= until &&
+        (!dueTimer ||
+          timer.dueTime < dueTimer.dueTime ||
+          (timer.dueTime === dueTimer.dueTime && timer.id < dueTimer.id))
+      ) {
+        dueTimer = timer;
+      }
+    });
+    return dueTimer;
+  };
+
+  const flushPromises = () =>
+    new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+  const advance = async (duration: Duration): Promise<void> => {
+    const targetTime = currentTime + toMilliseconds(duration);
+    await flushPromises();
+    for (
+      let timer = nextDueTimer(targetTime);
+      timer;
+      timer = nextDueTimer(targetTime)
+    ) {
+      timers.delete(timer.id);
+      currentTime = Math.max(currentTime, timer.dueTime);
+      timer.callback();
+      await flushPromises();
+    }
+    currentTime = targetTime;
+  };
+
+  return {
+    now: () => currentTime,
+    setTimeout: (callback, ms) => {
+      const id = nextTimerId++;
+      timers.set(id, {
+        id,
+        dueTime: currentTime + Math.max(ms, 0),
+        callback,
+      });
+      return id;
+    },
+    clearTimeout: (timer) => {
+      timers.delete(timer as number);
+    },
+    advance,
+    pendingTimers: () => timers.size,
+  };
+}
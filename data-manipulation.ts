@@ -1,4 +1,11 @@
-import { deepStrictEqual } from "assert";
+import {
+  addPeriods,
+  addYears,
+  dateRange,
+  DateOptions,
+  DateUnit,
+  startOf,
+} from "./date";
 
 /**
  * Creates a deep clone of an object using structured cloning.
@@ -37,48 +44,424 @@ function deepClone<T>(obj: T): T {
 }
 
 /**
- * Compares two values of the same type to determine if they are deeply equal.
+ * Options accepted by `deepEqual` and `explainInequality`.
  *
- * This function utilizes `deepStrictEqual` for comparison, which can throw an error if the values are not equal.
- * If an error is thrown, the catch block catches it, and the function returns false, indicating the values are not deeply equal.
- * If no error is thrown, the values are considered deeply equal, and the function returns true.
+ * - `ignoreKeys`: object properties left out of the comparison, as a list of keys or a predicate receiving the key
+ *   and the path of the object holding it.
+ * - `ignoreArrayOrder`: compares arrays as multisets, regardless of the order of their items.
+ *   Sets and Maps are always compared regardless of order.
+ * - `numericTolerance`: the largest difference between two numbers still considered equal (0 by default).
+ */
+export type DeepEqualOptions = {
+  ignoreKeys?: PropertyKey[] | ((key: PropertyKey, path: unknown[]) => boolean);
+  ignoreArrayOrder?: boolean;
+  numericTolerance?: number;
+};
+
+/**
+ * The first difference found by `explainInequality`: the path to it from the compared values, the two values there
+ * (`undefined` on the side where something is missing), and a description of the difference.
+ */
+export type Inequality = {
+  path: unknown[];
+  left: unknown;
+  right: unknown;
+  reason: string;
+};
+
+type Comparison = Inequality | undefined;
+
+const describeType = (value: unknown): string =>
+  value === null
+    ? "null"
+    : typeof value !== "object"
+    ? typeof value
+    : Object.prototype.toString.call(value).slice(8, -1);
+
+/**
+ * Structural comparison shared by `deepEqual` and `explainInequality`, returning the first difference found.
+ * Pairs of objects being compared are tracked, so that a cycle is considered equal once it comes back
+ * to a pair already under comparison.
+ */
+function createComparer(options: DeepEqualOptions) {
+  const {
+    ignoreKeys,
+    ignoreArrayOrder = false,
+    numericTolerance = 0,
+  } = options;
+  const isIgnoredKey =
+    typeof ignoreKeys === "function"
+      ? ignoreKeys
+      : (key: PropertyKey) => ignoreKeys?.includes(key) ?? false;
+  const inProgress = new Map<object, Set<object>>();
+
+  const difference = (
+    path: unknown[],
+    left: unknown,
+    right: unknown,
+    reason: string
+  ): Inequality => ({ path, left, right, reason });
+
+  const compareUnordered = (
+    leftItems: unknown[],
+    rightItems: unknown[],
+    path: unknown[],
+    kind: string
+  ): Comparison => {
+    const unmatched = rightItems.slice();
+    for (const item of leftItems) {
+      const index = unmatched.findIndex(
+        (candidate) => compare(item, candidate, path) === undefined
+      );
+      if (index === -1) {
+        return difference(
+          path,
+          item,
+          undefined,
+          `The ${kind} on the left has an item missing on the right.`
+        );
+      }
+      unmatched.splice(index, 1);
+    }
+    return unmatched.length === 0
+      ? undefined
+      : difference(
+          path,
+          undefined,
+          unmatched[0],
+          `The ${kind} on the right has an item missing on the left.`
+        );
+  };
+
+  const compareSequences = (
+    left: ArrayLike<unknown>,
+    right: ArrayLike<unknown>,
+    path: unknown[]
+  ): Comparison => {
+    const commonLength = Math.min(left.length, right.length);
+    for (let index = 0; index < commonLength; index++) {
+      if (index in left !== index in right) {
+        return difference(
+          [...path, index],
+          left[index],
+          right[index],
+          "One of the arrays has a hole at this index."
+        );
+      }
+      const result = compare(left[index], right[index], [...path, index]);
+      if (result) {
+        return result;
+      }
+    }
+    return left.length === right.length
+      ? undefined
+      : difference(
+          [...path, commonLength],
+          left[commonLength],
+          right[commonLength],
+          `The lengths differ: ${left.length} on the left, ${right.length} on the right.`
+        );
+  };
+
+  const compareMaps = (
+    left: Map<unknown, unknown>,
+    right: Map<unknown, unknown>,
+    path: unknown[]
+  ): Comparison => {
+    const unmatchedKeys = new Set(right.keys());
+    for (const [key, value] of left) {
+      let rightKey = key;
+      if (!right.has(key)) {
+        const equalKey =
+          typeof key === "object" && key !== null
+            ? Array.from(unmatchedKeys).find(
+                (candidate) => compare(key, candidate, path) === undefined
+              )
+            : undefined;
+        if (equalKey === undefined) {
+          return difference(
+            [...path, key],
+            value,
+            undefined,
+            "The key is missing on the right."
+          );
+        }
+        rightKey = equalKey;
+      }
+      unmatchedKeys.delete(rightKey);
+      const result = compare(value, right.get(rightKey), [...path, key]);
+      if (result) {
+        return result;
+      }
+    }
+    const [extraKey] = unmatchedKeys;
+    return unmatchedKeys.size === 0
+      ? undefined
+      : difference(
+          [...path, extraKey],
+          undefined,
+          right.get(extraKey),
+          "The key is missing on the left."
+        );
+  };
+
+  const compareSets = (
+    left: Set<unknown>,
+    right: Set<unknown>,
+    path: unknown[]
+  ): Comparison => {
+    const leftOnly = Array.from(left).filter((item) => !right.has(item));
+    const rightOnly = Array.from(right).filter((item) => !left.has(item));
+    return compareUnordered(leftOnly, rightOnly, path, "Set");
+  };
+
+  const getKeys = (value: object, path: unknown[]): PropertyKey[] =>
+    Reflect.ownKeys(value).filter(
+      (key) =>
+        Object.prototype.propertyIsEnumerable.call(value, key) &&
+        !isIgnoredKey(key, path)
+    );
+
+  const compareProperties = (
+    left: Record<PropertyKey, unknown>,
+    right: Record<PropertyKey, unknown>,
+    path: unknown[]
+  ): Comparison => {
+    const rightKeys = new Set(getKeys(right, path));
+    for (const key of getKeys(left, path)) {
+      if (!rightKeys.has(key)) {
+        return difference(
+          [...path, key],
+          left[key],
+          undefined,
+          "The property is missing on the right."
+        );
+      }
+      rightKeys.delete(key);
+      const result = compare(left[key], right[key], [...path, key]);
+      if (result) {
+        return result;
+      }
+    }
+    const [extraKey] = rightKeys;
+    return rightKeys.size === 0
+      ? undefined
+      : difference(
+          [...path, extraKey],
+          undefined,
+          right[extraKey],
+          "The property is missing on the left."
+        );
+  };
+
+  // Both sides have the same prototype, so checking one of them would be enough; both are checked
+  // so that TypeScript narrows them together.
+  const compareObjects = (
+    left: object,
+    right: object,
+    path: unknown[]
+  ): Comparison => {
+    if (left instanceof Date && right instanceof Date) {
+      return Object.is(left.getTime(), right.getTime())
+        ? undefined
+        : difference(path, left, right, "The dates differ.");
+    }
+    if (left instanceof RegExp && right instanceof RegExp) {
+      return left.source === right.source &&
+        left.flags === right.flags &&
+        left.lastIndex === right.lastIndex
+        ? undefined
+        : difference(path, left, right, "The regular expressions differ.");
+    }
+    if (isBoxedPrimitive(left) && isBoxedPrimitive(right)) {
+      if (!Object.is(left.valueOf(), right.valueOf())) {
+        return difference(path, left, right, "The boxed values differ.");
+      }
+    }
+    if (left instanceof Error && right instanceof Error) {
+      if (left.name !== right.name || left.message !== right.message) {
+        return difference(path, left, right, "The errors differ.");
+      }
+    }
+    if (left instanceof ArrayBuffer && right instanceof ArrayBuffer) {
+      return compareSequences(
+        new Uint8Array(left),
+        new Uint8Array(right),
+        path
+      );
+    }
+    if (left instanceof DataView && right instanceof DataView) {
+      return compareSequences(
+        new Uint8Array(left.buffer, left.byteOffset, left.byteLength),
+        new Uint8Array(right.buffer, right.byteOffset, right.byteLength),
+        path
+      );
+    }
+    if (isTypedArray(left) && isTypedArray(right)) {
+      return compareSequences(left, right, path);
+    }
+    if (left instanceof Map && right instanceof Map) {
+      return compareMaps(left, right, path);
+    }
+    if (left instanceof Set && right instanceof Set) {
+      return compareSets(left, right, path);
+    }
+    if (Array.isArray(left) && Array.isArray(right)) {
+      if (ignoreArrayOrder) {
+        return compareUnordered(left, right, path, "array");
+      }
+      const result = compareSequences(left, right, path);
+      if (result) {
+        return result;
+      }
+      return compareProperties(omitIndices(left), omitIndices(right), path);
+    }
+    return compareProperties(
+      left as Record<PropertyKey, unknown>,
+      right as Record<PropertyKey, unknown>,
+      path
+    );
+  };
+
+  function compare(left: unknown, right: unknown, path: unknown[]): Comparison {
+    if (Object.is(left, right)) {
+      return undefined;
+    }
+    if (
+      numericTolerance > 0 &&
+      typeof left === "number" &&
+      typeof right === "number" &&
+      Math.abs(left - right) <= numericTolerance
+    ) {
+      return undefined;
+    }
+    if (
+      typeof left !== "object" ||
+      typeof right !== "object" ||
+      left === null ||
+      right === null
+    ) {
+      return difference(
+        path,
+        left,
+        right,
+        typeof left === typeof right && left !== null && right !== null
+          ? "The values differ."
+          : `The types differ: ${describeType(
+              left
+            )} on the left, ${describeType(right)} on the right.`
+      );
+    }
+    if (Object.getPrototypeOf(left) !== Object.getPrototypeOf(right)) {
+      return difference(
+        path,
+        left,
+        right,
+        `The types differ: ${describeType(left)} on the left, ${describeType(
+          right
+        )} on the right.`
+      );
+    }
+
+    const pairs = inProgress.get(left);
+    if (pairs?.has(right)) {
+      return undefined;
+    }
+    if (pairs) {
+      pairs.add(right);
+    } else {
+      inProgress.set(left, new Set([right]));
+    }
+    try {
+      return compareObjects(left, right, path);
+    } finally {
+      inProgress.get(left)?.delete(right);
+    }
+  }
+
+  return (left: unknown, right: unknown): Comparison =>
+    compare(left, right, []);
+}
+
+const isBoxedPrimitive = (value: object): value is Number | String | Boolean =>
+  value instanceof Number ||
+  value instanceof String ||
+  value instanceof Boolean;
+
+/**
+ * Tells whether a buffer view is a typed array, whose items can be read by index unlike a `DataView`'s.
+ */
+const isTypedArray = (value: object): value is ArrayLike<number | bigint> =>
+  ArrayBuffer.isView(value) && !(value instanceof DataView);
+
+const isArrayIndex = (key: string): boolean => /^(0|[1-9]\d*)$/.test(key);
+
+/**
+ * Keeps the properties of an array that are not indices, such as the ones added by `RegExp#exec`.
+ */
+const omitIndices = (array: unknown[]): Record<PropertyKey, unknown> => {
+  // Spreading copies the own enumerable properties, symbols included.
+  const properties: Record<PropertyKey, unknown> = { ...array };
+  Object.keys(properties)
+    .filter(isArrayIndex)
+    .forEach((key) => delete properties[key]);
+  return properties;
+};
+
+/**
+ * Compares two values structurally. Objects are equal when they have the same prototype and equal own enumerable
+ * properties, including symbols. Dates, regular expressions, boxed primitives, errors, typed arrays, buffers,
+ * Maps and Sets are compared by content, `NaN` equals itself, and circular references are supported.
+ * Unlike `assert.deepStrictEqual`, it runs in any JavaScript runtime and doesn't rely on exceptions.
  *
- * @param {T} a - The first value to compare.
- * @param {T} b - The second value to compare.
+ * @param {unknown} a - The first value to compare.
+ * @param {unknown} b - The second value to compare.
+ * @param {DeepEqualOptions} [options] - Keys to ignore, array ordering and numeric tolerance.
  * @returns {boolean} True if the values are deeply equal, false otherwise.
- * @template T - The type of the values to be compared.
  *
  * @example
  * // Example of comparing simple values
- * console.log(deepEqual<number>(1, 1)); // Output: true
- * console.log(deepEqual<number | string>(1, '1')); // Output: false
+ * console.log(deepEqual(1, 1)); // Output: true
+ * console.log(deepEqual(1, '1')); // Output: false
+ * console.log(deepEqual(NaN, NaN)); // Output: true
  *
  * @example
- * // Example of comparing arrays
- * const array1 = [1, 2, 3];
- * const array2 = [1, 2, 3];
- * console.log(deepEqual<number[]>(array1, array2)); // Output: true
+ * // Example of comparing nested objects
+ * const nestedObject1 = { person: { name: 'John', tags: new Set(['a', 'b']) } };
+ * const nestedObject2 = { person: { name: 'John', tags: new Set(['b', 'a']) } };
+ * console.log(deepEqual(nestedObject1, nestedObject2)); // Output: true
  *
  * @example
- * // Example of comparing objects
- * const object1 = { name: 'John', age: 30 };
- * const object2 = { name: 'John', age: 30 };
- * console.log(deepEqual<{ name: string; age: number }>(object1, object2)); // Output: true
+ * // Example of comparing with options
+ * deepEqual({ id: 1, total: 0.1 + 0.2 }, { id: 2, total: 0.3 }, { ignoreKeys: ['id'], numericTolerance: 1e-9 }); // true
+ * deepEqual([1, 2, 3], [3, 2, 1], { ignoreArrayOrder: true }); // true
+ */
+export function deepEqual(
+  a: unknown,
+  b: unknown,
+  options: DeepEqualOptions = {}
+): boolean {
+  return createComparer(options)(a, b) === undefined;
+}
+
+/**
+ * Explains why two values are not deeply equal, with the same rules and options as `deepEqual`.
+ *
+ * @param {unknown} a - The first value to compare.
+ * @param {unknown} b - The second value to compare.
+ * @param {DeepEqualOptions} [options] - Keys to ignore, array ordering and numeric tolerance.
+ * @returns {Inequality | undefined} The first difference found, or `undefined` when the values are deeply equal.
  *
  * @example
- * // Example of comparing nested objects
- * const nestedObject1 = { person: { name: 'John', age: 30 }};
- * const nestedObject2 = { person: { name: 'John', age: 30 }};
- * console.log(deepEqual<{ person: { name: string; age: number } }>(nestedObject1, nestedObject2)); // Output: true
+ * explainInequality({ user: { roles: ['admin', 'dev'] } }, { user: { roles: ['admin', 'ops'] } });
+ * // Output: { path: ['user', 'roles', 1], left: 'dev', right: 'ops', reason: 'The values differ.' }
  */
-function deepEqual<T>(a: T, b: T): boolean {
-  try {
-    // Assuming deepStrictEqual is defined or imported from an assertion library
-    deepStrictEqual(a, b);
-    return true;
-  } catch {
-    return false;
-  }
+export function explainInequality(
+  a: unknown,
+  b: unknown,
+  options: DeepEqualOptions = {}
+): Inequality | undefined {
+  return createComparer(options)(a, b);
 }
 
 /**
@@ -123,203 +506,1913 @@ function deepFreeze<T extends Record<string, any>>(object: T): T {
   return object;
 }
 
+/**
+ * Serializes a value into a canonical string, so that structurally equal values always produce the same string.
+ *
+ * Unlike `JSON.stringify`, object keys are sorted, so `{ a, b }` and `{ b, a }` serialize the same way,
+ * and values of different types never collide: `1` and `"1"` differ, as do `0` and `-0`, Dates are compared by timestamp,
+ * BigInts, Maps, Sets, RegExps, Errors, boxed primitives, buffers and typed arrays are supported,
+ * and Set members and Map entries are sorted.
+ * Circular references are serialized by their distance to the repeated ancestor instead of throwing.
+ *
+ * Two values produce the same string when `deepEqual` considers them equal, and different strings otherwise:
+ * every own enumerable property counts, including symbols, properties holding `undefined` and the properties
+ * of arrays that are not indices. The exceptions are:
+ * - objects with a `toJSON` method, such as URLs, are serialized by its result, like in `JSON.stringify`;
+ * - values without a structure to compare are serialized by identity: functions, symbols, Promises, WeakMaps,
+ *   WeakSets and WeakRefs only produce the same string as themselves, for the lifetime of the process;
+ * - instances of different classes sharing a name, and with the same properties, produce the same string.
+ *
+ * @param {unknown} value - The value to serialize.
+ * @returns {string} The canonical representation of the value.
+ *
+ * @example
+ * console.log(stableStringify({ b: 2, a: new Date(0) })); // Output: '{"a":Date(0),"b":2}'
+ * console.log(stableStringify({ a: 1, b: 2 }) === stableStringify({ b: 2, a: 1 })); // Output: true
+ * console.log(stableStringify(new Set([2, 1])) === stableStringify(new Set([1, 2]))); // Output: true
+ */
+export function stableStringify(value: unknown): string {
+  const ancestors: object[] = [];
+
+  const serialize = (current: unknown): string => {
+    switch (typeof current) {
+      case "string":
+        return JSON.stringify(current);
+      case "bigint":
+        return `${current}n`;
+      case "undefined":
+        return "undefined";
+      case "symbol":
+        return serializeSymbol(current);
+      case "function":
+        return `Function#${identityOf(current)}`;
+      case "number":
+        return Object.is(current, -0) ? "-0" : String(current);
+      case "boolean":
+        return String(current);
+    }
+    if (current === null) {
+      return "null";
+    }
+
+    const object = current as object;
+    const depth = ancestors.indexOf(object);
+    if (depth !== -1) {
+      return `Circular(${ancestors.length - depth})`;
+    }
+    ancestors.push(object);
+    try {
+      return serializeObject(object);
+    } finally {
+      ancestors.pop();
+    }
+  };
+
+  const serializeProperties = (object: object, skipIndices = false): string => {
+    const record = object as Record<PropertyKey, unknown>;
+    const entries = Reflect.ownKeys(object)
+      .filter(
+        (key) =>
+          Object.prototype.propertyIsEnumerable.call(object, key) &&
+          !(skipIndices && typeof key === "string" && isArrayIndex(key))
+      )
+      .map(
+        (key) =>
+          `${
+            typeof key === "symbol"
+              ? `[${serializeSymbol(key)}]`
+              : JSON.stringify(key)
+          }:${serialize(record[key])}`
+      );
+    return `{${entries.sort().join(",")}}`;
+  };
+
+  const serializeObject = (object: object): string => {
+    const prototype = Object.getPrototypeOf(object);
+    const name =
+      prototype === null || prototype === Object.prototype
+        ? ""
+        : prototype.constructor?.name ?? "";
+
+    if (isOpaqueObject(object)) {
+      return `${name}#${identityOf(object)}`;
+    }
+    if (object instanceof Date) {
+      return `Date(${object.getTime()})`;
+    }
+    if (object instanceof RegExp) {
+      return `RegExp(${object.toString()})`;
+    }
+    const toJSON = (object as { toJSON?: unknown }).toJSON;
+    if (typeof toJSON === "function") {
+      return `${name}(${serialize(toJSON.call(object))})`;
+    }
+    if (
+      object instanceof Number ||
+      object instanceof String ||
+      object instanceof Boolean
+    ) {
+      return `${name}(${serialize(object.valueOf())})${serializeProperties(
+        object
+      )}`;
+    }
+    if (object instanceof Error) {
+      return `${name}(${JSON.stringify(object.name)},${JSON.stringify(
+        object.message
+      )})${serializeProperties(object)}`;
+    }
+    if (Array.isArray(object)) {
+      const properties = serializeProperties(object, true);
+      return `[${object.map(serialize).join(",")}]${
+        properties === "{}" ? "" : properties
+      }`;
+    }
+    if (object instanceof ArrayBuffer) {
+      return `ArrayBuffer(${new Uint8Array(object).join(",")})`;
+    }
+    if (ArrayBuffer.isView(object)) {
+      const items = Array.from(
+        new Uint8Array(object.buffer, object.byteOffset, object.byteLength)
+      );
+      return `${name}(${items.join(",")})`;
+    }
+    if (object instanceof Set) {
+      return `Set[${Array.from(object, serialize).sort().join(",")}]`;
+    }
+    if (object instanceof Map) {
+      const entries = Array.from(
+        object,
+        ([key, entryValue]) => `${serialize(key)}=>${serialize(entryValue)}`
+      );
+      return `Map{${entries.sort().join(",")}}`;
+    }
+
+    return `${name}${serializeProperties(object)}`;
+  };
+
+  return serialize(value);
+}
+
+/**
+ * Numbers the values `stableStringify` serializes by identity, in the order they are first met.
+ */
+const identities = new WeakMap<object, number>();
+let nextIdentity = 0;
+
+const identityOf = (object: object): number => {
+  let identity = identities.get(object);
+  if (identity === undefined) {
+    identity = nextIdentity++;
+    identities.set(object, identity);
+  }
+  return identity;
+};
+
+/**
+ * Symbols cannot be `WeakMap` keys in every runtime, so they are numbered in a `Map`. Symbols are usually
+ * created once per module, so the map stays small.
+ */
+const symbolIdentities = new Map<symbol, number>();
+
+const serializeSymbol = (symbol: symbol): string => {
+  const registeredKey = Symbol.keyFor(symbol);
+  if (registeredKey !== undefined) {
+    return `Symbol.for(${JSON.stringify(registeredKey)})`;
+  }
+  let identity = symbolIdentities.get(symbol);
+  if (identity === undefined) {
+    identity = nextIdentity++;
+    symbolIdentities.set(symbol, identity);
+  }
+  return `Symbol#${identity}`;
+};
+
+/**
+ * Tells whether an object keeps its state out of reach, so that it can only be compared by identity.
+ */
+const isOpaqueObject = (object: object): boolean =>
+  object instanceof Promise ||
+  object instanceof WeakMap ||
+  object instanceof WeakSet ||
+  object instanceof WeakRef;
+
+/**
+ * Hashes a value into a short string, so that structurally equal values always produce the same hash.
+ * The hash is computed from the canonical representation of `stableStringify`, so values share a hash when
+ * `deepEqual` considers them equal, with the exceptions listed by `stableStringify`.
+ *
+ * Being 64 bits long, the hash is convenient as a cache key or an identifier, but different values may
+ * share a hash: compare `stableStringify` representations when collisions must be ruled out.
+ *
+ * @param {unknown} value - The value to hash.
+ * @returns {string} The hash of the value, as 16 hexadecimal digits.
+ *
+ * @example
+ * console.log(canonicalHash({ a: 1, b: 2 }) === canonicalHash({ b: 2, a: 1 })); // Output: true
+ */
+export function canonicalHash(value: unknown): string {
+  const text = stableStringify(value);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 =
+    Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+    Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 =
+    Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+    Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return [h2, h1]
+    .map((half) => (half >>> 0).toString(16).padStart(8, "0"))
+    .join("");
+}
+
+/**
+ * How a dictionary handles items sharing the same key: `"throw"` rejects them with a `DuplicateKeyError`,
+ * `"keepFirst"` and `"keepLast"` keep one of them, and `"collect"` keeps all of them in an array.
+ */
+export type DuplicateKeyPolicy = "throw" | "keepFirst" | "keepLast" | "collect";
+
+type DictionaryOptions<P extends DuplicateKeyPolicy> = { onDuplicate?: P };
+
+type DictionaryValue<T, P extends DuplicateKeyPolicy> = P extends "collect"
+  ? T[]
+  : T;
+
+/**
+ * Error thrown when a dictionary built with the `"throw"` duplicate key policy meets two items with the same key.
+ */
+export class DuplicateKeyError<T = unknown> extends Error {
+  constructor(
+    public readonly key: unknown,
+    public readonly items: [existing: T, duplicate: T],
+    public readonly index?: string
+  ) {
+    super(
+      `Duplicate key ${String(key)}${
+        index === undefined ? "" : ` in index "${index}"`
+      } while building a map dictionary.`
+    );
+    this.name = "DuplicateKeyError";
+  }
+}
+
+function addToDictionary<T>(
+  dictionary: Map<unknown, T | T[]>,
+  keyValue: unknown,
+  item: T,
+  policy: DuplicateKeyPolicy,
+  index?: string
+): void {
+  if (policy === "collect") {
+    const items = (dictionary.get(keyValue) as T[] | undefined) ?? [];
+    items.push(item);
+    dictionary.set(keyValue, items);
+    return;
+  }
+  if (!dictionary.has(keyValue)) {
+    dictionary.set(keyValue, item);
+    return;
+  }
+  if (policy === "throw") {
+    throw new DuplicateKeyError(
+      keyValue,
+      [dictionary.get(keyValue) as T, item],
+      index
+    );
+  }
+  if (policy === "keepLast") {
+    dictionary.set(keyValue, item);
+  }
+}
+
 /**
  * Creates a dictionary (map) from an array of objects, using a specified property value as the key.
  * Intended for use with unique identifier properties, such as 'id', as the key.
+ * When several objects share a key, the `onDuplicate` option decides what happens; by default the last one wins.
  * @param dataArray - Array of objects to be transformed into a map.
  * @param key - The property of the objects in the array that will be used as the key in the resulting map.
+ * @param options - `onDuplicate`: the `DuplicateKeyPolicy` applied to objects sharing a key (default `"keepLast"`).
  * @returns A map with keys based on the values of the specified `key` property of each object in `dataArray`.
+ * With the `"collect"` policy, each key maps to the array of objects sharing it.
  * @template T - The type of object within the `dataArray`.
  * @template K extends keyof T - The type of the key property within T, ensuring it exists on T.
  * @example
  * const users = [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }];
  * const userMap = createMapDictionary(users, 'id');
  * console.log(userMap.get(1)); // Outputs: { id: 1, name: 'Alice' }
+ *
+ * @example
+ * const orders = [{ id: 1, customerId: 1 }, { id: 2, customerId: 1 }];
+ * const ordersByCustomer = createMapDictionary(orders, 'customerId', { onDuplicate: 'collect' });
+ * console.log(ordersByCustomer.get(1)); // Outputs: [{ id: 1, customerId: 1 }, { id: 2, customerId: 1 }]
+ *
+ * createMapDictionary(orders, 'customerId', { onDuplicate: 'throw' }); // Throws a DuplicateKeyError
  */
-export function createMapDictionary<T, K extends keyof T>(
+export function createMapDictionary<
+  T,
+  K extends keyof T,
+  P extends DuplicateKeyPolicy = "keepLast"
+>(
   dataArray: T[],
-  key: K
-): Map<T[K], T> {
-  return dataArray.reduce<Map<T[K], T>>((acc, item) => {
-    acc.set(item[key], item);
+  key: K,
+  options: DictionaryOptions<P> = {}
+): Map<T[K], DictionaryValue<T, P>> {
+  const policy = options.onDuplicate ?? "keepLast";
+  return dataArray.reduce<Map<T[K], DictionaryValue<T, P>>>((acc, item) => {
+    addToDictionary(acc as Map<unknown, T | T[]>, item[key], item, policy);
     return acc;
-  }, new Map<T[K], T>());
+  }, new Map<T[K], DictionaryValue<T, P>>());
+}
+
+/**
+ * Builds a string key out of several values, to look up the entries of a composite index built by `createMapIndexes`.
+ * Values are compared by type and value, so `1` and `"1"` produce different keys.
+ *
+ * @param {...unknown[]} parts The values of the composite key, in the order of the index definition.
+ * @returns {string} The composite key.
+ * @example
+ * indexes.byTenantAndUser.get(compositeKey(1, 42));
+ */
+export function compositeKey(...parts: unknown[]): string {
+  return stableStringify(parts);
 }
 
-type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends (
-  k: infer I
-) => void
-  ? I
+type IndexKeyValue<T, S> = S extends readonly unknown[]
+  ? string
+  : S extends (item: T) => infer V
+  ? V
+  : S extends keyof T
+  ? T[S]
   : never;
 
+type MapIndexes<T, D, P extends DuplicateKeyPolicy> = {
+  [N in keyof D]: Map<IndexKeyValue<T, D[N]>, DictionaryValue<T, P>>;
+};
+
 /**
- * Initiates a left join operation between two arrays of objects based on separate keys in each array.
- * This approach allows for greater flexibility by permitting the joining keys in the source and target arrays to differ.
+ * Builds several lookup maps over the same array in a single pass.
+ * Each index is defined by a property name, a tuple of property names for a composite key, or a function deriving the key.
+ * Composite keys are built with `compositeKey`, which is also used to look them up.
  *
- * @template T Type of objects in the source array.
- * @template U Type of objects in the target array.
- * @param {T[]} source The source array for the join operation.
- * @returns An object with the `in` method, which is used to specify the target array for the join.
+ * @template T - The type of object within the `dataArray`.
+ * @template D - The index definitions, by index name.
+ * @param dataArray - Array of objects to index.
+ * @param definitions - The key of each index, by index name.
+ * @param options - `onDuplicate`: the `DuplicateKeyPolicy` applied by every index (default `"keepLast"`).
+ * @returns One map per index definition, under the same names.
  * @example
- * // Example of a source array where each object represents a person.
- * const persons = [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }];
+ * const users = [{ id: 1, tenantId: 7, email: 'Alice@Mail.com' }];
+ * const indexes = createMapIndexes(users, {
+ *   byId: 'id',
+ *   byTenantAndUser: ['tenantId', 'id'],
+ *   byEmail: (user) => user.email.toLowerCase(),
+ * }, { onDuplicate: 'throw' });
  *
- * // Initiating the left join operation with the source array.
- * const joinOperation = leftJoin(persons);
+ * indexes.byId.get(1); // { id: 1, tenantId: 7, email: 'Alice@Mail.com' }
+ * indexes.byTenantAndUser.get(compositeKey(7, 1)); // { id: 1, tenantId: 7, email: 'Alice@Mail.com' }
+ * indexes.byEmail.get('alice@mail.com'); // { id: 1, tenantId: 7, email: 'Alice@Mail.com' }
  */
-export function leftJoin<T>(source: T[]) {
+export function createMapIndexes<
+  T,
+  D extends Record<string, JoinKey<T>>,
+  P extends DuplicateKeyPolicy = "keepLast"
+>(
+  dataArray: T[],
+  definitions: D,
+  options: DictionaryOptions<P> = {}
+): MapIndexes<T, D, P> {
+  const policy = options.onDuplicate ?? "keepLast";
+  const indexes = Object.entries(definitions).map(
+    ([name, key]) => [name, key, new Map<unknown, T | T[]>()] as const
+  );
+
+  for (const item of dataArray) {
+    for (const [name, key, dictionary] of indexes) {
+      const keyValue = Array.isArray(key)
+        ? compositeKey(...getJoinKeyParts(item, key))
+        : getJoinKeyParts(item, key)[0];
+      addToDictionary(dictionary, keyValue, item, policy, name);
+    }
+  }
+
+  return Object.fromEntries(
+    indexes.map(([name, , dictionary]) => [name, dictionary])
+  ) as MapIndexes<T, D, P>;
+}
+
+/**
+ * A reducer folds the rows of a group into a single value: `init` creates the accumulator of a group,
+ * `step` adds a row to it and `result` turns it into the aggregated value.
+ *
+ * @template Row The rows the reducer can consume.
+ * @template Acc The accumulator kept for each group.
+ * @template Out The aggregated value.
+ * @example
+ * // A custom reducer concatenating the names of a group.
+ * const names: Reducer<{ name: string }, string[], string> = {
+ *   init: () => [],
+ *   step: (acc, row) => [...acc, row.name],
+ *   result: (acc) => acc.join(', '),
+ * };
+ */
+export type Reducer<Row, Acc, Out> = {
+  init: () => Acc;
+  step: (acc: Acc, row: Row) => Acc;
+  result: (acc: Acc) => Out;
+};
+
+declare const fieldOutput: unique symbol;
+
+/**
+ * Placeholder output of the reducers returning row values (`min`, `max`, `first`, `last` and `collect`).
+ * `aggregate` resolves it against the row type, since the reducers are created before the rows are known.
+ * `K` is `null` when the whole row is returned. `Shape` is `"value"` for a single value, `"list"` for an array
+ * of values, and `"extreme"` for the smallest or largest value, which is `undefined` when all values are missing.
+ */
+type FieldOutput<
+  K extends PropertyKey | null,
+  Shape extends "value" | "list" | "extreme"
+> = {
+  readonly [fieldOutput]: [K, Shape];
+};
+
+type ResolveOutput<T, O> = O extends FieldOutput<infer K, infer Shape>
+  ? [K] extends [null]
+    ? Shape extends "list"
+      ? T[]
+      : T
+    : K extends keyof T
+    ? Shape extends "list"
+      ? T[K][]
+      : Shape extends "extreme"
+      ? NonNullable<T[K]> | undefined
+      : T[K]
+    : never
+  : O;
+
+type ReducerValues<T, A> = {
+  [P in keyof A]: A[P] extends Reducer<any, any, infer O>
+    ? ResolveOutput<T, O>
+    : never;
+};
+
+type GroupRow<T, K extends keyof T, A> = Pick<T, K> & ReducerValues<T, A>;
+
+/**
+ * Sums a numeric field over the rows of each group.
+ *
+ * @param {K} field The field to sum.
+ * @returns {Reducer} A reducer to be used with `groupBy(...).by(...).aggregate(...)`.
+ */
+export function sum<K extends PropertyKey>(
+  field: K
+): Reducer<Record<K, number>, number, number> {
   return {
-    /**
-     * Specifies the target array to be joined with the source array.
-     *
-     * @param {U[]} target The target array for the join operation.
-     * @returns An object with the `with` method, which is used to specify the joining key in the source array.
-     * @example
-     * // Example of a target array where each object represents an order.
-     * const orders = [{ orderId: 101, customerId: 1, product: 'Book' }];
-     *
-     * // Specifying the target array for the join operation.
-     * const joinWithTarget = joinOperation.in(orders);
-     */
-    in<U>(target: U[]) {
-      return {
-        /**
-         * Specifies the key in the source array to join on.
-         *
-         * @template K Type of the key in the source array.
-         * @param {K} sourceKey The key in the source array to use for the join.
-         * @returns An object with the `matching` method, which is used to specify the corresponding key in the target array.
-         * @example
-         * // Specifying the key in the source array for the join operation.
-         * const joinWithSourceKey = joinWithTarget.with('id');
-         */
-        with<K extends keyof T>(sourceKey: K) {
-          return {
-            /**
-             * Specifies the key in the target array that matches the key in the source array.
-             *
-             * @template L Type of the key in the target array.
-             * @param {L} targetKey The key in the target array that corresponds to the source key.
-             * @returns {(T & Partial<U>)[]} An array resulting from the left join operation, with objects from the source array enriched with matching objects from the target array.
-             * @example
-             * // Executing the left join operation with the specified keys.
-             * const result = joinWithSourceKey.matching('customerId');
-             *
-             * // The result is an array of objects from the source array (persons) enriched with data from the target array (orders) based on matching ids.
-             * console.log(result);
-             * // Output: [{ id: 1, name: 'Alice', orderId: 101, customerId: 1, product: 'Book' }]
-             */
-            matching<L extends keyof U>(targetKey: L): (T & Partial<U>)[] {
-              const targetIndex = target.reduce(
-                (acc: Record<string, U[]>, obj: U) => {
-                  const keyValue = String(obj[targetKey]);
-                  acc[keyValue] = acc[keyValue] || [];
-                  acc[keyValue].push(obj);
-                  return acc;
-                },
-                {}
-              );
-
-              return source.flatMap((srcObj) => {
-                const keyValue = String(srcObj[sourceKey]);
-                const matches = targetIndex[keyValue];
-                if (matches && matches.length > 0) {
-                  return structuredClone(
-                    matches.map((match) => ({
-                      ...srcObj,
-                      ...match,
-                    }))
-                  );
-                }
-                return [{ ...structuredClone(srcObj) }];
-              }) as (T & Partial<U>)[];
-            },
-          };
-        },
-      };
-    },
+    init: () => 0,
+    step: (acc, row) => acc + row[field],
+    result: (acc) => acc,
   };
 }
 
 /**
- * Initiates an inner join operation between two arrays of objects based on separate keys in each array.
- * This function allows for flexible key matching between the source and target arrays, facilitating inner join operations where only matching pairs are included in the result.
- * Supports method chaining for specifying the target array, source key, and target key.
+ * Counts the rows of each group.
+ *
+ * @returns {Reducer} A reducer to be used with `groupBy(...).by(...).aggregate(...)`.
+ */
+export function count(): Reducer<unknown, number, number> {
+  return {
+    init: () => 0,
+    step: (acc) => acc + 1,
+    result: (acc) => acc,
+  };
+}
+
+/**
+ * Averages a numeric field over the rows of each group. The average of no rows, such as an empty bucket
+ * of `timeSeries`, is `NaN`.
+ *
+ * @param {K} field The field to average.
+ * @returns {Reducer} A reducer to be used with `groupBy(...).by(...).aggregate(...)`.
+ */
+export function avg<K extends PropertyKey>(
+  field: K
+): Reducer<Record<K, number>, { total: number; rows: number }, number> {
+  return {
+    init: () => ({ total: 0, rows: 0 }),
+    step: (acc, row) => ({ total: acc.total + row[field], rows: acc.rows + 1 }),
+    result: (acc) => acc.total / acc.rows,
+  };
+}
+
+/**
+ * The values `min` and `max` can compare with `<` and `>`.
+ */
+type Comparable = number | bigint | string | Date;
+
+function extremeOf<K extends PropertyKey>(
+  field: K,
+  isBetter: (candidate: Comparable, current: Comparable) => boolean
+): Reducer<
+  Record<K, Comparable | null | undefined>,
+  Comparable | undefined,
+  FieldOutput<K, "extreme">
+> {
+  return {
+    init: () => undefined,
+    step: (acc, row) => {
+      const value = row[field];
+      if (value === null || value === undefined) {
+        return acc;
+      }
+      return acc === undefined || isBetter(value, acc) ? value : acc;
+    },
+    result: (acc) => acc as unknown as FieldOutput<K, "extreme">,
+  };
+}
+
+/**
+ * Finds the smallest value of a field in each group, comparing with `<`. `null` and `undefined` values are ignored,
+ * and the result is `undefined` when a group has no other value.
+ *
+ * @param {K} field The field to inspect.
+ * @returns {Reducer} A reducer to be used with `groupBy(...).by(...).aggregate(...)`.
+ */
+export function min<K extends PropertyKey>(field: K) {
+  return extremeOf(field, (candidate, current) => candidate < current);
+}
+
+/**
+ * Finds the largest value of a field in each group, comparing with `>`. `null` and `undefined` values are ignored,
+ * and the result is `undefined` when a group has no other value.
+ *
+ * @param {K} field The field to inspect.
+ * @returns {Reducer} A reducer to be used with `groupBy(...).by(...).aggregate(...)`.
+ */
+export function max<K extends PropertyKey>(field: K) {
+  return extremeOf(field, (candidate, current) => candidate > current);
+}
+
+function pickRowValue<Row extends Record<PropertyKey, unknown>>(
+  row: Row,
+  field: keyof Row | undefined
+): unknown {
+  return field === undefined ? row : row[field];
+}
+
+/**
+ * Keeps the first row of each group, or the value of `field` in that row, `undefined` when there are no rows.
+ *
+ * @param {K} [field] The field to keep. The whole row is kept when omitted.
+ * @returns {Reducer} A reducer to be used with `groupBy(...).by(...).aggregate(...)`.
+ */
+export function first(): Reducer<unknown, unknown, FieldOutput<null, "value">>;
+export function first<K extends PropertyKey>(
+  field: K
+): Reducer<Record<K, unknown>, unknown, FieldOutput<K, "value">>;
+export function first(
+  field?: PropertyKey
+): Reducer<
+  Record<PropertyKey, unknown>,
+  unknown,
+  FieldOutput<PropertyKey | null, "value">
+> {
+  const empty = Symbol("empty");
+  return {
+    init: () => empty,
+    step: (acc, row) => (acc === empty ? pickRowValue(row, field) : acc),
+    result: (acc) =>
+      (acc === empty ? undefined : acc) as FieldOutput<
+        PropertyKey | null,
+        "value"
+      >,
+  };
+}
+
+/**
+ * Keeps the last row of each group, or the value of `field` in that row, `undefined` when there are no rows.
+ *
+ * @param {K} [field] The field to keep. The whole row is kept when omitted.
+ * @returns {Reducer} A reducer to be used with `groupBy(...).by(...).aggregate(...)`.
+ */
+export function last(): Reducer<unknown, unknown, FieldOutput<null, "value">>;
+export function last<K extends PropertyKey>(
+  field: K
+): Reducer<Record<K, unknown>, unknown, FieldOutput<K, "value">>;
+export function last(
+  field?: PropertyKey
+): Reducer<
+  Record<PropertyKey, unknown>,
+  unknown,
+  FieldOutput<PropertyKey | null, "value">
+> {
+  return {
+    init: () => undefined,
+    step: (_, row) => pickRowValue(row, field),
+    result: (acc) => acc as FieldOutput<PropertyKey | null, "value">,
+  };
+}
+
+/**
+ * Collects the rows of each group into an array, or the values of `field` in those rows.
+ *
+ * @param {K} [field] The field to collect. The whole rows are collected when omitted.
+ * @returns {Reducer} A reducer to be used with `groupBy(...).by(...).aggregate(...)`.
+ */
+export function collect(): Reducer<
+  unknown,
+  unknown[],
+  FieldOutput<null, "list">
+>;
+export function collect<K extends PropertyKey>(
+  field: K
+): Reducer<Record<K, unknown>, unknown[], FieldOutput<K, "list">>;
+export function collect(
+  field?: PropertyKey
+): Reducer<
+  Record<PropertyKey, unknown>,
+  unknown[],
+  FieldOutput<PropertyKey | null, "list">
+> {
+  return {
+    init: () => [],
+    step: (acc, row) => {
+      acc.push(pickRowValue(row, field));
+      return acc;
+    },
+    result: (acc) => acc as unknown as FieldOutput<PropertyKey | null, "list">,
+  };
+}
+
+/**
+ * Initiates a grouping operation over an array of objects, in the same fluent style as the joins.
+ * Rows are grouped by the values of one or more fields, compared by type and value (Dates by timestamp),
+ * and each group is folded into one output row by the given reducers.
+ *
+ * @template T Type of objects in the array.
+ * @param {T[]} rows The rows to group.
+ * @returns An object with the `by` method, which is used to specify the grouping fields.
+ * @example
+ * const sales = [
+ *   { region: 'EU', month: '2024-01', amount: 10 },
+ *   { region: 'EU', month: '2024-01', amount: 5 },
+ *   { region: 'US', month: '2024-01', amount: 7 },
+ * ];
+ * const totals = groupBy(sales).by('region', 'month').aggregate({ total: sum('amount'), n: count() });
+ * console.log(totals);
+ * // Output: [
+ * //   { region: 'EU', month: '2024-01', total: 15, n: 2 },
+ * //   { region: 'US', month: '2024-01', total: 7, n: 1 }
+ * // ]
+ */
+export function groupBy<T>(rows: T[]) {
+  return {
+    /**
+     * Specifies the fields to group by. Without fields, all the rows form a single group.
+     *
+     * @template K The grouping fields.
+     * @param {...K[]} keys The fields to group by.
+     * @returns An object with the `aggregate` method, which is used to specify the reducers.
+     */
+    by<K extends keyof T>(...keys: K[]) {
+      return {
+        /**
+         * Folds each group into one row holding the grouping fields and one property per reducer.
+         * Groups are returned in the order of their first row.
+         *
+         * @template A The reducers, by output property.
+         * @param {A} reducers The reducers to apply to each group, such as `sum('amount')` or `count()`.
+         * @returns {GroupRow<T, K, A>[]} One row per group.
+         */
+        aggregate<A extends Record<string, Reducer<T, any, any>>>(
+          reducers: A
+        ): GroupRow<T, K, A>[] {
+          const reducerEntries = Object.entries(reducers);
+          const groups = new Map<
+            string,
+            { key: Pick<T, K>; accumulators: unknown[] }
+          >();
+
+          for (const row of rows) {
+            const groupKey = stableStringify(keys.map((key) => row[key]));
+            let group = groups.get(groupKey);
+            if (!group) {
+              group = {
+                key: Object.fromEntries(
+                  keys.map((key) => [key, row[key]])
+                ) as Pick<T, K>,
+                accumulators: reducerEntries.map(([, reducer]) =>
+                  reducer.init()
+                ),
+              };
+              groups.set(groupKey, group);
+            }
+            const { accumulators } = group;
+            reducerEntries.forEach(([, reducer], index) => {
+              accumulators[index] = reducer.step(accumulators[index], row);
+            });
+          }
+
+          return Array.from(groups.values(), ({ key, accumulators }) => ({
+            ...key,
+            ...Object.fromEntries(
+              reducerEntries.map(([name, reducer], index) => [
+                name,
+                reducer.result(accumulators[index]),
+              ])
+            ),
+          })) as GroupRow<T, K, A>[];
+        },
+      };
+    },
+  };
+}
+
+/**
+ * The value of a reducer in a bucket compared with its value in an earlier bucket.
+ * `change` is the difference and `ratio` the change relative to the earlier value; both are `null` unless the
+ * two values are finite numbers, and `ratio` is also `null` when the earlier value is 0.
+ */
+export type PeriodComparison<V> = {
+  value: V;
+  change: number | null;
+  ratio: number | null;
+};
+
+/**
+ * A row produced by `timeSeries`: the start of the bucket, the number of records in it, and one property per reducer.
+ * `previous` and `lastYear` are set when requested with the `compare` option.
+ */
+export type TimeSeriesRow<T, A> = ReducerValues<T, A> & {
+  bucket: Date;
+  records: number;
+  previous?: { [P in keyof A]: PeriodComparison<ReducerValues<T, A>[P]> };
+  lastYear?: { [P in keyof A]: PeriodComparison<ReducerValues<T, A>[P]> };
+};
+
+/**
+ * Options accepted by `timeSeries`.
+ *
+ * - `date`: reads the date of a record, as a Date, an ISO string or a timestamp.
+ * - `granularity`: the size of the buckets.
+ * - `aggregate`: the reducers folding the records of each bucket, by output property, as in `groupBy`.
+ * - `start` / `end`: the range of the buckets, both included. They default to the dates of the first and last records.
+ * - `fill`: the values of the reducers for empty buckets. By default a reducer gives its result for no records:
+ *   0 for `sum` and `count`, `undefined` for `first`, `last`, `min` and `max`, and `NaN` for `avg`.
+ * - `compare`: adds the comparison of each bucket with the `"previous"` one and with the same period of the year before (`"lastYear"`).
+ * - `weekStartsOn`: the first day of the weeks, Monday by default as in ISO 8601 (0 for Sunday).
+ * - `timeZone`: the time zone the buckets are aligned in, UTC by default.
+ */
+export type TimeSeriesOptions<T, A> = DateOptions & {
+  date: (record: T) => Date | string | number;
+  granularity: DateUnit;
+  aggregate: A;
+  start?: Date;
+  end?: Date;
+  fill?: Partial<ReducerValues<T, A>>;
+  compare?: Array<"previous" | "lastYear">;
+  weekStartsOn?: number;
+};
+
+/**
+ * Buckets records by date and aggregates each bucket, returning one row for every bucket of the range,
+ * including the empty ones, so that the series can be charted without gaps.
+ * Records outside of the range are still used for the comparisons with earlier periods.
+ *
+ * @template T Type of the records.
+ * @template A The reducers, by output property.
+ * @param {T[]} records The records to bucket.
+ * @param {TimeSeriesOptions<T, A>} options The date accessor, granularity, reducers, range, fill values and comparisons.
+ * @returns {TimeSeriesRow<T, A>[]} One row per bucket, in chronological order.
+ * @throws {RangeError} If the date of a record, `start` or `end` is not a valid date.
+ * @example
+ * const orders = [
+ *   { placedAt: '2024-01-12', amount: 10 },
+ *   { placedAt: '2024-03-02', amount: 25 },
+ *   { placedAt: '2024-03-20', amount: 5 },
+ * ];
+ * const monthly = timeSeries(orders, {
+ *   date: (order) => order.placedAt,
+ *   granularity: 'month',
+ *   aggregate: { revenue: sum('amount') },
+ *   compare: ['previous'],
+ * });
+ * console.log(monthly.map(({ bucket, revenue, previous }) => [bucket.toISOString().slice(0, 7), revenue, previous?.revenue.change]));
+ * // Output: [['2024-01', 10, 10], ['2024-02', 0, -10], ['2024-03', 30, 30]]
+ */
+export function timeSeries<T, A extends Record<string, Reducer<T, any, any>>>(
+  records: T[],
+  options: TimeSeriesOptions<T, A>
+): TimeSeriesRow<T, A>[] {
+  const {
+    date: getDate,
+    granularity,
+    aggregate,
+    fill = {},
+    compare = [],
+  } = options;
+  const reducerEntries = Object.entries(aggregate);
+  const buckets = new Map<
+    number,
+    { records: number; accumulators: unknown[] }
+  >();
+  let firstDate: Date | undefined;
+  let lastDate: Date | undefined;
+
+  records.forEach((record, recordIndex) => {
+    const date = new Date(getDate(record));
+    if (Number.isNaN(date.getTime())) {
+      throw new RangeError(
+        `The date of the record at index ${recordIndex} is not a valid date.`
+      );
+    }
+    if (!firstDate || date < firstDate) {
+      firstDate = date;
+    }
+    if (!lastDate || date > lastDate) {
+      lastDate = date;
+    }
+    const bucketTime = startOf(date, granularity, options).getTime();
+    let bucket = buckets.get(bucketTime);
+    if (!bucket) {
+      bucket = {
+        records: 0,
+        accumulators: reducerEntries.map(([, reducer]) => reducer.init()),
+      };
+      buckets.set(bucketTime, bucket);
+    }
+    bucket.records++;
+    const { accumulators } = bucket;
+    reducerEntries.forEach(([, reducer], index) => {
+      accumulators[index] = reducer.step(accumulators[index], record);
+    });
+  });
+
+  const start = options.start ?? firstDate;
+  const end = options.end ?? lastDate;
+  if (!start || !end) {
+    return [];
+  }
+
+  const getValues = (bucketStart: Date): Record<string, unknown> => {
+    const bucket = buckets.get(bucketStart.getTime());
+    return Object.fromEntries(
+      reducerEntries.map(([name, reducer], index) => [
+        name,
+        bucket
+          ? reducer.result(bucket.accumulators[index])
+          : name in fill
+          ? (fill as Record<string, unknown>)[name]
+          : reducer.result(reducer.init()),
+      ])
+    );
+  };
+
+  const compareValues = (
+    values: Record<string, unknown>,
+    earlierBucket: Date
+  ): Record<string, PeriodComparison<unknown>> => {
+    const earlierValues = getValues(earlierBucket);
+    return Object.fromEntries(
+      reducerEntries.map(([name]) => {
+        const value = values[name];
+        const earlierValue = earlierValues[name];
+        const isComparable =
+          typeof value === "number" &&
+          typeof earlierValue === "number" &&
+          Number.isFinite(value) &&
+          Number.isFinite(earlierValue);
+        const change = isComparable ? value - earlierValue : null;
+        return [
+          name,
+          {
+            value: earlierValue,
+            change,
+            ratio:
+              change === null || earlierValue === 0
+                ? null
+                : change / Math.abs(earlierValue as number),
+          },
+        ];
+      })
+    );
+  };
+
+  return Array.from(
+    dateRange(start, end, { ...options, step: granularity }),
+    (bucketStart) => {
+      const values = getValues(bucketStart);
+      return {
+        bucket: bucketStart,
+        records: buckets.get(bucketStart.getTime())?.records ?? 0,
+        ...values,
+        ...(compare.includes("previous") && {
+          previous: compareValues(
+            values,
+            addPeriods(bucketStart, -1, granularity, options)
+          ),
+        }),
+        ...(compare.includes("lastYear") && {
+          lastYear: compareValues(
+            values,
+            startOf(addYears(bucketStart, -1, options), granularity, options)
+          ),
+        }),
+      };
+    }
+  ) as TimeSeriesRow<T, A>[];
+}
+
+type JoinKind = "left" | "inner" | "right" | "fullOuter" | "semi" | "anti";
+
+/**
+ * Maps each join kind to the shape of the rows it produces, given source rows of type `T` and target rows of type `U`.
+ * Sides that may be missing from a row are typed as `Partial`.
+ */
+type JoinResult<T, U> = {
+  left: T & Partial<U>;
+  inner: T & U;
+  right: Partial<T> & U;
+  fullOuter: Partial<T> & Partial<U>;
+  semi: T;
+  anti: T;
+};
+
+/**
+ * Maps each join kind to the arguments received by a custom `merge` callback. The missing side of an unmatched row is `undefined`.
+ */
+type JoinSides<T, U> = {
+  left: [source: T, target: U | undefined];
+  inner: [source: T, target: U];
+  right: [source: T | undefined, target: U];
+  fullOuter: [source: T | undefined, target: U | undefined];
+  semi: [source: T, target: U];
+  anti: [source: T, target: U];
+};
+
+type PrefixedKeys<U, P extends string> = {
+  [K in keyof U as `${P}${K & string}`]: U[K];
+};
+
+/**
+ * Describes how rows are matched on one side of a join: a single property, a tuple of properties for
+ * composite keys, or a selector function deriving the key from the row.
+ */
+export type JoinKey<V> =
+  | keyof V
+  | readonly [keyof V, ...(keyof V)[]]
+  | ((row: V) => unknown);
+
+/**
+ * The target side key accepted by `matching`. Composite source keys require a composite target key of the same length.
+ */
+type MatchingKey<U, K> = K extends readonly unknown[]
+  ? { [I in keyof K]: keyof U }
+  : keyof U | ((row: U) => unknown);
+
+/**
+ * Options accepted by `matching`.
+ *
+ * - `keyEquality`: `"loose"` (default) compares keys by their `String()` value, so `1` and `"1"` match.
+ *   `"strict"` compares keys by type and value, Dates by timestamp and objects and arrays structurally.
+ * - `prefix`: prefixes every field of the target row, so overlapping fields no longer overwrite the source fields.
+ * - `nestAs`: places the target row under the given property instead of spreading it into the source row.
+ * - `merge`: builds each output row from the source and target rows. The missing side of an unmatched row is `undefined`.
+ *
+ * Only one of `prefix`, `nestAs` and `merge` can be used at a time. Semi and anti joins ignore them.
+ */
+export type JoinOptions<
+  J extends JoinKind,
+  T,
+  U,
+  P extends string,
+  N extends string,
+  R
+> = {
+  keyEquality?: "loose" | "strict";
+  prefix?: P;
+  nestAs?: N;
+  merge?: (...sides: JoinSides<T, U>[J]) => R;
+};
+
+type JoinRow<
+  J extends JoinKind,
+  T,
+  U,
+  P extends string,
+  N extends string,
+  R
+> = J extends "semi" | "anti"
+  ? T
+  : [R] extends [never]
+  ? [N] extends [never]
+    ? [P] extends [never]
+      ? JoinResult<T, U>[J]
+      : JoinResult<T, PrefixedKeys<U, P>>[J]
+    : JoinResult<T, { [Name in N]: U }>[J]
+  : R;
+
+type JoinConfig<T, U> = {
+  kind: JoinKind;
+  sourceKey: JoinKey<T>;
+  targetKey: JoinKey<U>;
+  keyEquality: "loose" | "strict";
+  combine: (source: T | undefined, target: U | undefined) => unknown;
+};
+
+/**
+ * Reads the values making up the key of a row, one per key column.
+ */
+function getJoinKeyParts<V>(row: V, key: JoinKey<V>): unknown[] {
+  if (typeof key === "function") {
+    return [key(row)];
+  }
+  if (Array.isArray(key)) {
+    return key.map((part) => row[part as keyof V]);
+  }
+  return [row[key as keyof V]];
+}
+
+/**
+ * Resolves the key parts of a row into a string usable as an index entry.
+ */
+function encodeJoinKeyParts(
+  parts: unknown[],
+  keyEquality: "loose" | "strict"
+): string {
+  if (keyEquality === "strict") {
+    return stableStringify(parts);
+  }
+  return parts.length === 1
+    ? String(parts[0])
+    : JSON.stringify(parts.map((part) => String(part)));
+}
+
+/**
+ * Resolves the key of a row into a string usable as an index entry.
+ */
+function encodeJoinKey<V>(
+  row: V,
+  key: JoinKey<V>,
+  keyEquality: "loose" | "strict"
+): string {
+  return encodeJoinKeyParts(getJoinKeyParts(row, key), keyEquality);
+}
+
+/**
+ * Groups the positions of `rows` by their encoded key.
+ */
+function indexRowsByKey<V>(
+  rows: V[],
+  key: JoinKey<V>,
+  keyEquality: "loose" | "strict"
+): Map<string, number[]> {
+  return rows.reduce<Map<string, number[]>>((acc, row, position) => {
+    const keyValue = encodeJoinKey(row, key, keyEquality);
+    const positions = acc.get(keyValue) ?? [];
+    positions.push(position);
+    acc.set(keyValue, positions);
+    return acc;
+  }, new Map<string, number[]>());
+}
+
+/**
+ * Builds the function that turns a source row and a target row into an output row, according to the conflict options.
+ */
+function createRowCombiner<J extends JoinKind, T, U>(
+  options: JoinOptions<J, T, U, string, string, unknown>
+): JoinConfig<T, U>["combine"] {
+  const { prefix, nestAs, merge } = options;
+  const strategies = [prefix, nestAs, merge].filter(
+    (strategy) => strategy !== undefined
+  );
+  if (strategies.length > 1) {
+    throw new Error(
+      "Only one of `prefix`, `nestAs` and `merge` can be used in a join."
+    );
+  }
+
+  if (merge !== undefined) {
+    // The join engine only leaves out the sides that the kind of the join allows to be missing.
+    return (source, target) =>
+      merge(...([source, target] as JoinSides<T, U>[J]));
+  }
+  if (nestAs !== undefined) {
+    return (source, target) =>
+      target === undefined ? { ...source } : { ...source, [nestAs]: target };
+  }
+  if (prefix !== undefined) {
+    return (source, target) => ({
+      ...source,
+      ...Object.fromEntries(
+        Object.entries(target ?? {}).map(([key, value]) => [
+          `${prefix}${key}`,
+          value,
+        ])
+      ),
+    });
+  }
+  return (source, target) => ({ ...source, ...target });
+}
+
+/**
+ * The join engine shared by every join builder. Rows are deep cloned before being combined,
+ * so the inputs are never referenced by the result.
+ *
+ * Row order follows the driving side: the source array for every kind except `right`, which follows the target array.
+ * A `fullOuter` join lists the left join rows first, followed by the unmatched target rows.
+ */
+function runJoin<T, U>(
+  config: JoinConfig<T, U>,
+  source: T[],
+  target: U[]
+): unknown[] {
+  const { kind, sourceKey, targetKey, keyEquality, combine } = config;
+
+  if (
+    Array.isArray(sourceKey) &&
+    Array.isArray(targetKey) &&
+    sourceKey.length !== targetKey.length
+  ) {
+    throw new Error(
+      `Composite join keys must have the same length, got ${sourceKey.length} source and ${targetKey.length} target keys.`
+    );
+  }
+
+  if (kind === "right") {
+    const sourceIndex = indexRowsByKey(source, sourceKey, keyEquality);
+    return target.flatMap((targetObj) => {
+      const keyValue = encodeJoinKey(targetObj, targetKey, keyEquality);
+      const matches = sourceIndex.get(keyValue) ?? [];
+      if (matches.length === 0) {
+        return [combine(undefined, structuredClone(targetObj))];
+      }
+      return matches.map((position) =>
+        combine(structuredClone(source[position]), structuredClone(targetObj))
+      );
+    });
+  }
+
+  const targetIndex = indexRowsByKey(target, targetKey, keyEquality);
+  const matchedTargets = new Set<number>();
+
+  const rows = source.flatMap((srcObj): unknown[] => {
+    const keyValue = encodeJoinKey(srcObj, sourceKey, keyEquality);
+    const matches = targetIndex.get(keyValue) ?? [];
+
+    if (kind === "semi") {
+      return matches.length > 0 ? [structuredClone(srcObj)] : [];
+    }
+    if (kind === "anti") {
+      return matches.length === 0 ? [structuredClone(srcObj)] : [];
+    }
+    if (matches.length === 0) {
+      return kind === "inner"
+        ? []
+        : [combine(structuredClone(srcObj), undefined)];
+    }
+
+    return matches.map((position) => {
+      matchedTargets.add(position);
+      return combine(
+        structuredClone(srcObj),
+        structuredClone(target[position])
+      );
+    });
+  });
+
+  if (kind === "fullOuter") {
+    target.forEach((targetObj, position) => {
+      if (!matchedTargets.has(position)) {
+        rows.push(combine(undefined, structuredClone(targetObj)));
+      }
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Builds the fluent `.in(target).with(sourceKey).matching(targetKey, options)` chain used by every join type.
+ *
+ * @template J The kind of join to perform.
+ * @template T Type of objects in the source array.
+ * @param {J} kind The kind of join to perform.
+ * @param {T[]} source The source array for the join operation.
+ * @returns An object with the `in` method, which is used to specify the target array for the join.
+ */
+function joinBuilder<J extends JoinKind, T>(kind: J, source: T[]) {
+  return {
+    /**
+     * Specifies the target array to be joined with the source array.
+     *
+     * @param {U[]} target The target array for the join operation.
+     * @returns An object with the `with` method, which is used to specify the joining key in the source array.
+     * @example
+     * // Example of a target array where each object represents an order.
+     * const orders = [{ orderId: 101, customerId: 1, product: 'Book' }];
+     *
+     * // Specifying the target array for the join operation.
+     * const joinWithTarget = leftJoin(persons).in(orders);
+     */
+    in<U>(target: U[]) {
+      return {
+        /**
+         * Specifies the key in the source array to join on: a property name, a tuple of property names
+         * for a composite key, or a selector function.
+         *
+         * @template K Type of the key in the source array.
+         * @param {K} sourceKey The key in the source array to use for the join.
+         * @returns An object with the `matching` method, which is used to specify the corresponding key in the target array.
+         * @example
+         * // Specifying the key in the source array for the join operation.
+         * const joinWithSourceKey = joinWithTarget.with('id');
+         *
+         * @example
+         * // Joining on several columns at once.
+         * const joinOnTenantAndUser = joinWithTarget.with(['tenantId', 'userId']);
+         */
+        with<K extends JoinKey<T>>(sourceKey: K) {
+          return {
+            /**
+             * Specifies the key in the target array that matches the key in the source array and executes the join.
+             *
+             * @template P The prefix applied to the target fields, when `prefix` is used.
+             * @template N The property holding the target row, when `nestAs` is used.
+             * @template R The row type returned by a custom `merge` callback.
+             * @param targetKey The key in the target array that corresponds to the source key.
+             * @param {JoinOptions} [options] Key equality and field conflict options.
+             * @returns The joined rows, typed according to the kind of join and the conflict option.
+             * @example
+             * // Executing the join operation with the specified keys.
+             * const result = joinWithSourceKey.matching('customerId');
+             *
+             * @example
+             * // Keeping both `id` fields by nesting the order under its own property.
+             * const result = leftJoin(persons).in(orders).with('id').matching('customerId', { nestAs: 'order' });
+             * // Output: [{ id: 1, name: 'Alice', order: { id: 101, customerId: 1, product: 'Book' } }, { id: 2, name: 'Bob' }]
+             */
+            matching<
+              P extends string = never,
+              N extends string = never,
+              R = never
+            >(
+              targetKey: MatchingKey<U, K>,
+              options: JoinOptions<J, T, U, P, N, R> = {}
+            ): JoinRow<J, T, U, P, N, R>[] {
+              const config: JoinConfig<T, U> = {
+                kind,
+                sourceKey,
+                targetKey: targetKey as JoinKey<U>,
+                keyEquality: options.keyEquality ?? "loose",
+                combine: createRowCombiner(options),
+              };
+              return runJoin(config, source, target) as JoinRow<
+                J,
+                T,
+                U,
+                P,
+                N,
+                R
+              >[];
+            },
+          };
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Initiates a left join operation between two arrays of objects based on separate keys in each array.
+ * This approach allows for greater flexibility by permitting the joining keys in the source and target arrays to differ.
+ *
+ * @template T Type of objects in the source array.
+ * @param {T[]} source The source array for the join operation.
+ * @returns An object with the `in` method, which is used to specify the target array for the join.
+ * @example
+ * // Example of a source array where each object represents a person.
+ * const persons = [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }];
+ * const orders = [{ orderId: 101, customerId: 1, product: 'Book' }];
+ *
+ * // Every person is kept, enriched with their orders when there are any.
+ * const result = leftJoin(persons).in(orders).with('id').matching('customerId');
+ * console.log(result);
+ * // Output: [{ id: 1, name: 'Alice', orderId: 101, customerId: 1, product: 'Book' }, { id: 2, name: 'Bob' }]
+ */
+export function leftJoin<T>(source: T[]) {
+  return joinBuilder("left", source);
+}
+
+/**
+ * Initiates an inner join operation between two arrays of objects based on separate keys in each array.
+ * This function allows for flexible key matching between the source and target arrays, facilitating inner join operations where only matching pairs are included in the result.
+ * Supports method chaining for specifying the target array, source key, and target key.
+ *
+ * @template T Type of objects in the source array.
+ * @param {T[]} source The source array for the join.
+ * @returns An object with the `.in(target)` method, allowing specification of the target array.
+ * @example
+ * // Source array of persons, each with a unique personId.
+ * const persons = [{ personId: 1, name: 'Alice' }, { personId: 2, name: 'Bob' }];
+ * // Target array of orders, each with a customerId linking back to a person.
+ * const orders = [{ orderId: 101, customerId: 1, product: 'Book' }];
+ * // Initiating the inner join operation.
+ * const matchedPairs = innerJoin(persons).in(orders).with('personId').matching('customerId');
+ * console.log(matchedPairs);
+ * // Output: [{ personId: 1, name: 'Alice', orderId: 101, customerId: 1, product: 'Book' }]
+ */
+export function innerJoin<T>(source: T[]) {
+  return joinBuilder("inner", source);
+}
+
+/**
+ * Initiates a right join operation: every object of the target array is kept, enriched with the matching objects
+ * of the source array when there are any. Useful to find rows whose parent record is missing.
+ *
+ * @template T Type of objects in the source array.
+ * @param {T[]} source The source array for the join.
+ * @returns An object with the `.in(target)` method, allowing specification of the target array.
+ * @example
+ * const persons = [{ id: 1, name: 'Alice' }];
+ * const orders = [{ orderId: 101, customerId: 1 }, { orderId: 102, customerId: 3 }];
+ * const result = rightJoin(persons).in(orders).with('id').matching('customerId');
+ * console.log(result);
+ * // Output: [{ id: 1, name: 'Alice', orderId: 101, customerId: 1 }, { orderId: 102, customerId: 3 }]
+ */
+export function rightJoin<T>(source: T[]) {
+  return joinBuilder("right", source);
+}
+
+/**
+ * Initiates a full outer join operation: every object of both arrays is kept. Matched pairs are merged,
+ * unmatched source objects follow the source order and unmatched target objects are appended at the end.
+ * Useful to reconcile two exports of the same data.
+ *
+ * @template T Type of objects in the source array.
+ * @param {T[]} source The source array for the join.
+ * @returns An object with the `.in(target)` method, allowing specification of the target array.
+ * @example
+ * const persons = [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }];
+ * const orders = [{ orderId: 101, customerId: 1 }, { orderId: 102, customerId: 3 }];
+ * const result = fullOuterJoin(persons).in(orders).with('id').matching('customerId');
+ * console.log(result);
+ * // Output: [
+ * //   { id: 1, name: 'Alice', orderId: 101, customerId: 1 },
+ * //   { id: 2, name: 'Bob' },
+ * //   { orderId: 102, customerId: 3 }
+ * // ]
+ */
+export function fullOuterJoin<T>(source: T[]) {
+  return joinBuilder("fullOuter", source);
+}
+
+/**
+ * Initiates a semi join operation: keeps the source objects that have at least one match in the target array.
+ * Each source object appears once, regardless of how many matches it has, and no target fields are added.
+ *
+ * @template T Type of objects in the source array.
+ * @param {T[]} source The source array for the join.
+ * @returns An object with the `.in(target)` method, allowing specification of the target array.
+ * @example
+ * const persons = [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }];
+ * const orders = [{ orderId: 101, customerId: 1 }, { orderId: 102, customerId: 1 }];
+ * const customersWithOrders = semiJoin(persons).in(orders).with('id').matching('customerId');
+ * console.log(customersWithOrders); // Output: [{ id: 1, name: 'Alice' }]
+ */
+export function semiJoin<T>(source: T[]) {
+  return joinBuilder("semi", source);
+}
+
+/**
+ * Initiates an anti join operation: keeps the source objects that have no match in the target array.
+ *
+ * @template T Type of objects in the source array.
+ * @param {T[]} source The source array for the join.
+ * @returns An object with the `.in(target)` method, allowing specification of the target array.
+ * @example
+ * const persons = [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }];
+ * const orders = [{ orderId: 101, customerId: 1 }];
+ * const customersWithoutOrders = antiJoin(persons).in(orders).with('id').matching('customerId');
+ * console.log(customersWithoutOrders); // Output: [{ id: 2, name: 'Bob' }]
+ */
+export function antiJoin<T>(source: T[]) {
+  return joinBuilder("anti", source);
+}
+
+/**
+ * Options accepted by `matching` in the streaming join builders, on top of the regular join options.
+ *
+ * - `strategy`: `"hash"` (default) indexes one side in memory and streams the other one.
+ *   `"sortMerge"` expects both inputs sorted ascending by the join key and keeps only one key group of each side in memory.
+ *   Rows match when their keys are equal under `keyEquality`, as with the hash strategy. Keys are ordered column by column:
+ *   numbers and bigints by value, strings by code unit, booleans with `false` first and Dates by timestamp. With strict
+ *   equality, values of different types are ordered by type (booleans, numbers, bigints, strings, then Dates), and with
+ *   loose equality by their `String()` value. Other key values, such as `undefined`, `null`, `NaN` or objects, reject
+ *   with a `TypeError`, and an unsorted input rejects with an error.
+ * - `buildSide`: the side indexed in memory by the hash strategy. By default it is the smaller input when both sizes are
+ *   known without reading the inputs, that is for arrays and collections with a `size` or `length` such as Sets, and the
+ *   target otherwise. The sizes of iterators and async iterables are not known, so set it to the smaller input for them.
+ * - `clone`: deep clones every row before combining it (default `true`). Disable it when the rows are not reused elsewhere.
+ */
+export type StreamJoinOptions<
+  J extends JoinKind,
+  T,
+  U,
+  P extends string,
+  N extends string,
+  R
+> = JoinOptions<J, T, U, P, N, R> & {
+  strategy?: "hash" | "sortMerge";
+  buildSide?: JoinSide;
+  clone?: boolean;
+};
+
+type JoinSide = "source" | "target";
+
+/**
+ * Counts the rows of an input without reading it, when it is an array or a collection with a `size` or `length`.
+ */
+function knownRowCount(
+  rows: AsyncIterable<unknown> | Iterable<unknown>
+): number | undefined {
+  if (Array.isArray(rows)) {
+    return rows.length;
+  }
+  const { size, length } = rows as { size?: unknown; length?: unknown };
+  if (typeof size === "number") {
+    return size;
+  }
+  return typeof length === "number" ? length : undefined;
+}
+
+/**
+ * Picks the side indexed by the hash strategy when none is given: the source when it is known to be smaller,
+ * and the target otherwise.
+ */
+function defaultBuildSide(
+  source: AsyncIterable<unknown> | Iterable<unknown>,
+  target: AsyncIterable<unknown> | Iterable<unknown>
+): JoinSide {
+  const sourceCount = knownRowCount(source);
+  const targetCount = knownRowCount(target);
+  return sourceCount !== undefined &&
+    targetCount !== undefined &&
+    sourceCount < targetCount
+    ? "source"
+    : "target";
+}
+
+type StreamJoinConfig<T, U> = JoinConfig<T, U> & {
+  copy: <V>(row: V) => V;
+};
+
+type RowGroup<V> = {
+  keyParts: SortableKeyPart[];
+  encodedKey: string;
+  rows: V[];
+};
+
+const preservedJoinSides: Record<JoinKind, JoinSide[]> = {
+  left: ["source"],
+  inner: [],
+  right: ["target"],
+  fullOuter: ["source", "target"],
+  semi: [],
+  anti: [],
+};
+
+function iterateRows<V>(
+  rows: AsyncIterable<V> | Iterable<V>
+): AsyncIterator<V> {
+  return (async function* () {
+    yield* rows;
+  })();
+}
+
+async function collectRows<V>(rows: AsyncIterator<V>): Promise<V[]> {
+  const collected: V[] = [];
+  for (let next = await rows.next(); !next.done; next = await rows.next()) {
+    collected.push(next.value);
+  }
+  return collected;
+}
+
+type SortableKeyPart = boolean | number | bigint | string | Date;
+
+/**
+ * The order of the key types of a strict sort-merge join.
+ */
+const rankSortableKeyPart = (part: SortableKeyPart): number =>
+  part instanceof Date
+    ? 4
+    : ["boolean", "number", "bigint", "string"].indexOf(typeof part);
+
+/**
+ * Checks that a key value can be ordered by a sort-merge join.
+ */
+function toSortableKeyPart(part: unknown, side: JoinSide): SortableKeyPart {
+  if (
+    typeof part === "boolean" ||
+    typeof part === "bigint" ||
+    typeof part === "string" ||
+    (typeof part === "number" && !Number.isNaN(part)) ||
+    (part instanceof Date && !Number.isNaN(part.getTime()))
+  ) {
+    return part;
+  }
+  throw new TypeError(
+    `A sort-merge join cannot order the ${side} key value ${String(
+      part
+    )}: keys must be booleans, numbers, bigints, strings or valid Dates.`
+  );
+}
+
+const compareOrdered = <V extends SortableKeyPart>(left: V, right: V): number =>
+  left < right ? -1 : left > right ? 1 : 0;
+
+function compareKeyPart(
+  left: SortableKeyPart,
+  right: SortableKeyPart,
+  keyEquality: "loose" | "strict"
+): number {
+  const isNumeric = (part: SortableKeyPart) =>
+    typeof part === "number" || typeof part === "bigint";
+
+  if (keyEquality === "loose" && isNumeric(left) && isNumeric(right)) {
+    return compareOrdered(left, right);
+  }
+  if (left instanceof Date && right instanceof Date) {
+    return compareOrdered(left.getTime(), right.getTime());
+  }
+  if (
+    typeof left !== typeof right ||
+    left instanceof Date ||
+    right instanceof Date
+  ) {
+    return keyEquality === "strict"
+      ? rankSortableKeyPart(left) - rankSortableKeyPart(right)
+      : compareOrdered(String(left), String(right));
+  }
+  return compareOrdered(left, right);
+}
+
+/**
+ * Orders the keys of two row groups. Keys with the same encoding are equal, as in the hash strategy,
+ * and the encodings break the ties of keys that are ordered the same way but not equal.
+ */
+function compareRowGroupKeys(
+  left: Omit<RowGroup<unknown>, "rows">,
+  right: Omit<RowGroup<unknown>, "rows">,
+  keyEquality: "loose" | "strict"
+): number {
+  if (left.encodedKey === right.encodedKey) {
+    return 0;
+  }
+  for (let index = 0; index < left.keyParts.length; index++) {
+    const order = compareKeyPart(
+      left.keyParts[index],
+      right.keyParts[index],
+      keyEquality
+    );
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return compareOrdered(left.encodedKey, right.encodedKey);
+}
+
+/**
+ * Combines a row of the given side with an optional row of the other side, keeping the source on the left.
+ */
+function combineFromSide<T, U>(
+  config: StreamJoinConfig<T, U>,
+  side: JoinSide,
+  row: unknown,
+  otherRow: unknown
+): unknown {
+  const { combine, copy } = config;
+  const other = otherRow === undefined ? undefined : copy(otherRow);
+  return side === "source"
+    ? combine(copy(row) as T, other as U | undefined)
+    : combine(other as T | undefined, copy(row) as U);
+}
+
+/**
+ * Yields the rows a join emits for rows of one side that have no match on the other side.
+ */
+function* emitUnmatched<T, U>(
+  config: StreamJoinConfig<T, U>,
+  side: JoinSide,
+  rows: unknown[]
+): Generator<unknown> {
+  if (config.kind === "anti" && side === "source") {
+    yield* rows.map((row) => config.copy(row));
+    return;
+  }
+  if (preservedJoinSides[config.kind].includes(side)) {
+    yield* rows.map((row) => combineFromSide(config, side, row, undefined));
+  }
+}
+
+/**
+ * Closes both inputs of a join, so that the generators or streams behind them release their resources
+ * when the join ends early, fails, or is stopped by its consumer.
+ */
+async function closeJoinInputs(
+  ...inputs: AsyncIterator<unknown>[]
+): Promise<void> {
+  await Promise.all(inputs.map((input) => input.return?.()));
+}
+
+async function* streamHashJoin<T, U>(
+  config: StreamJoinConfig<T, U>,
+  source: AsyncIterator<T>,
+  target: AsyncIterator<U>,
+  buildSide: JoinSide
+): AsyncGenerator<unknown> {
+  try {
+    yield* hashJoinRows(config, source, target, buildSide);
+  } finally {
+    await closeJoinInputs(source, target);
+  }
+}
+
+async function* hashJoinRows<T, U>(
+  config: StreamJoinConfig<T, U>,
+  source: AsyncIterator<T>,
+  target: AsyncIterator<U>,
+  buildSide: JoinSide
+): AsyncGenerator<unknown> {
+  const { kind, keyEquality, copy } = config;
+  const buildRows: unknown[] = await collectRows<unknown>(
+    buildSide === "source" ? source : target
+  );
+  const probeRows: AsyncIterator<unknown> =
+    buildSide === "source" ? target : source;
+  const probeSide: JoinSide = buildSide === "source" ? "target" : "source";
+  const keyOf = (side: JoinSide) =>
+    (side === "source"
+      ? config.sourceKey
+      : config.targetKey) as JoinKey<unknown>;
+
+  const buildIndex = indexRowsByKey(buildRows, keyOf(buildSide), keyEquality);
+  const matchedBuildRows = new Set<number>();
+
+  for (
+    let next = await probeRows.next();
+    !next.done;
+    next = await probeRows.next()
+  ) {
+    const probeRow = next.value;
+    const keyValue = encodeJoinKey(probeRow, keyOf(probeSide), keyEquality);
+    const matches = buildIndex.get(keyValue) ?? [];
+
+    if (kind === "semi" || kind === "anti") {
+      if (probeSide === "source") {
+        if (matches.length > 0 === (kind === "semi")) {
+          yield copy(probeRow);
+        }
+        continue;
+      }
+      for (const position of matches) {
+        if (kind === "semi" && !matchedBuildRows.has(position)) {
+          yield copy(buildRows[position]);
+        }
+        matchedBuildRows.add(position);
+      }
+      continue;
+    }
+
+    if (matches.length === 0) {
+      yield* emitUnmatched(config, probeSide, [probeRow]);
+      continue;
+    }
+    for (const position of matches) {
+      matchedBuildRows.add(position);
+      yield combineFromSide(config, probeSide, probeRow, buildRows[position]);
+    }
+  }
+
+  if (kind !== "semi") {
+    yield* emitUnmatched(
+      config,
+      buildSide,
+      buildRows.filter((_, position) => !matchedBuildRows.has(position))
+    );
+  }
+}
+
+/**
+ * Returns a reader of consecutive rows sharing the same key, rejecting when the rows are not sorted by key.
+ */
+function readSortedGroups<V>(
+  rows: AsyncIterator<V>,
+  key: JoinKey<V>,
+  side: JoinSide,
+  keyEquality: "loose" | "strict"
+): () => Promise<RowGroup<V> | undefined> {
+  let lookahead: IteratorResult<V> | undefined;
+
+  const readKey = (row: V): Omit<RowGroup<V>, "rows"> => {
+    const keyParts = getJoinKeyParts(row, key).map((part) =>
+      toSortableKeyPart(part, side)
+    );
+    return { keyParts, encodedKey: encodeJoinKeyParts(keyParts, keyEquality) };
+  };
+
+  return async () => {
+    const first = lookahead ?? (await rows.next());
+    if (first.done) {
+      lookahead = first;
+      return undefined;
+    }
+
+    const group: RowGroup<V> = { ...readKey(first.value), rows: [first.value] };
+    for (;;) {
+      const next = await rows.next();
+      if (next.done) {
+        lookahead = next;
+        return group;
+      }
+      const order = compareRowGroupKeys(
+        readKey(next.value),
+        group,
+        keyEquality
+      );
+      if (order < 0) {
+        throw new Error(
+          `The ${side} rows of a sort-merge join must be sorted ascending by the join key.`
+        );
+      }
+      if (order > 0) {
+        lookahead = next;
+        return group;
+      }
+      group.rows.push(next.value);
+    }
+  };
+}
+
+async function* streamSortMergeJoin<T, U>(
+  config: StreamJoinConfig<T, U>,
+  source: AsyncIterator<T>,
+  target: AsyncIterator<U>
+): AsyncGenerator<unknown> {
+  try {
+    yield* sortMergeJoinRows(config, source, target);
+  } finally {
+    await closeJoinInputs(source, target);
+  }
+}
+
+async function* sortMergeJoinRows<T, U>(
+  config: StreamJoinConfig<T, U>,
+  source: AsyncIterator<T>,
+  target: AsyncIterator<U>
+): AsyncGenerator<unknown> {
+  const { kind, keyEquality, copy } = config;
+  const nextSourceGroup = readSortedGroups(
+    source,
+    config.sourceKey,
+    "source",
+    keyEquality
+  );
+  const nextTargetGroup = readSortedGroups(
+    target,
+    config.targetKey,
+    "target",
+    keyEquality
+  );
+  const emitsUnmatched = (side: JoinSide) =>
+    preservedJoinSides[kind].includes(side) ||
+    (kind === "anti" && side === "source");
+
+  let sourceGroup = await nextSourceGroup();
+  let targetGroup = await nextTargetGroup();
+
+  while (sourceGroup || targetGroup) {
+    if (!sourceGroup && !emitsUnmatched("target")) {
+      return;
+    }
+    if (!targetGroup && !emitsUnmatched("source")) {
+      return;
+    }
+
+    const order = !sourceGroup
+      ? 1
+      : !targetGroup
+      ? -1
+      : compareRowGroupKeys(sourceGroup, targetGroup, keyEquality);
+
+    if (order < 0 && sourceGroup) {
+      yield* emitUnmatched(config, "source", sourceGroup.rows);
+      sourceGroup = await nextSourceGroup();
+      continue;
+    }
+    if (order > 0 && targetGroup) {
+      yield* emitUnmatched(config, "target", targetGroup.rows);
+      targetGroup = await nextTargetGroup();
+      continue;
+    }
+
+    if (sourceGroup && targetGroup) {
+      if (kind === "semi") {
+        yield* sourceGroup.rows.map((row) => copy(row));
+      } else if (kind !== "anti") {
+        for (const sourceRow of sourceGroup.rows) {
+          for (const targetRow of targetGroup.rows) {
+            yield combineFromSide(config, "source", sourceRow, targetRow);
+          }
+        }
+      }
+    }
+    sourceGroup = await nextSourceGroup();
+    targetGroup = await nextTargetGroup();
+  }
+}
+
+/**
+ * Builds the fluent `.in(target).with(sourceKey).matching(targetKey, options)` chain used by every streaming join type.
+ * Each step mirrors the synchronous `joinBuilder`, but the inputs may be any `Iterable` or `AsyncIterable`
+ * and `matching` returns an `AsyncGenerator` yielding the joined rows lazily.
  *
- * @template T Type of objects in the source array.
- * @template U Type of objects in the target array.
- * @param {T[]} source The source array for the join.
- * @returns An object with the `.in(target)` method, allowing specification of the target array.
- * @example
- * // Source array of persons, each with a unique personId.
- * const persons = [{ personId: 1, name: 'Alice' }, { personId: 2, name: 'Bob' }];
- * // Target array of orders, each with a customerId linking back to a person.
- * const orders = [{ orderId: 101, customerId: 1, product: 'Book' }];
- * // Initiating the inner join operation.
- * const matchedPairs = innerJoin(persons).in(orders).with('personId').matching('customerId');
+ * Unlike the synchronous joins, the row order is not guaranteed: it depends on the strategy and on the side held in memory.
+ *
+ * @template J The kind of join to perform.
+ * @template T Type of objects in the source input.
+ * @param {J} kind The kind of join to perform.
+ * @param source The source rows for the join operation.
+ * @returns An object with the `in` method, which is used to specify the target rows for the join.
  */
-export function innerJoin<T>(source: T[]) {
+function streamJoinBuilder<J extends JoinKind, T>(
+  kind: J,
+  source: AsyncIterable<T> | Iterable<T>
+) {
   return {
     /**
-     * Specifies the target array to be joined with the source array.
+     * Specifies the target rows to be joined with the source rows.
      *
-     * @param {U[]} target The target array for the join operation.
-     * @returns An object with the `.with(sourceKey)` method, allowing specification of the source key for the join.
-     * @example
-     * // Continuing from the initiation of the innerJoin operation...
-     * const joinWithTarget = innerJoin(persons).in(orders);
+     * @param target The target rows for the join operation.
+     * @returns An object with the `with` method, which is used to specify the joining key in the source rows.
      */
-    in<U>(target: U[]) {
+    in<U>(target: AsyncIterable<U> | Iterable<U>) {
       return {
         /**
-         * Specifies the key in the source array to join on.
+         * Specifies the key in the source rows to join on: a property name, a tuple of property names
+         * for a composite key, or a selector function.
          *
-         * @template K Type of the key in the source array.
-         * @param {K} sourceKey The key in the source array to use for the join.
-         * @returns An object with the `.matching(targetKey)` method, allowing specification of the corresponding target key.
-         * @example
-         * // Specifying the source key (personId from persons array).
-         * const joinWithSourceKey = innerJoin(persons).in(orders).with('personId');
+         * @param {K} sourceKey The key in the source rows to use for the join.
+         * @returns An object with the `matching` method, which is used to specify the corresponding key in the target rows.
          */
-        with<K extends keyof T>(sourceKey: K) {
+        with<K extends JoinKey<T>>(sourceKey: K) {
           return {
             /**
-             * Specifies the key in the target array that matches the key in the source array, completing the inner join operation setup.
-             * The resulting operation will include only objects where a match is found between the source and target arrays based on the specified keys.
+             * Specifies the key in the target rows that matches the key in the source rows and starts the join.
              *
-             * @template L Type of the key in the target array.
-             * @param {L} targetKey The key in the target array that corresponds to the source key.
-             * @returns {(T & U)[]} An array resulting from the inner join operation, including only matched pairs.
+             * @param targetKey The key in the target rows that corresponds to the source key.
+             * @param {StreamJoinOptions} [options] Strategy, cloning, key equality and field conflict options.
+             * @returns An async generator yielding the joined rows.
              * @example
-             * // Completing the inner join operation by specifying the target key (customerId from orders array) and executing the join.
-             * const matchedPairs = innerJoin(persons).in(orders).with('personId').matching('customerId');
-             * console.log(matchedPairs);
-             * // Output: [{ personId: 1, name: 'Alice', orderId: 101, customerId: 1, product: 'Book' }]
+             * for await (const row of leftJoinStream(readCustomers()).in(readOrders()).with('id').matching('customerId', { clone: false })) {
+             *   writeRow(row);
+             * }
              */
-            matching<L extends keyof U>(targetKey: L): (T & U)[] {
-              const targetIndex = target.reduce(
-                (acc: Record<string, U[]>, obj: U) => {
-                  const keyValue = String(obj[targetKey]);
-                  acc[keyValue] = acc[keyValue] || [];
-                  acc[keyValue].push(obj);
-                  return acc;
-                },
-                {}
-              );
-
-              return source.flatMap((srcObj) => {
-                const keyValue = String(srcObj[sourceKey]);
-                const targetMatches = targetIndex[keyValue];
-                if (targetMatches && targetMatches.length > 0) {
-                  return structuredClone(
-                    targetMatches.map((targetObj) => ({
-                      ...srcObj,
-                      ...targetObj,
-                    }))
-                  );
-                }
-                return [];
-              });
+            matching<
+              P extends string = never,
+              N extends string = never,
+              R = never
+            >(
+              targetKey: MatchingKey<U, K>,
+              options: StreamJoinOptions<J, T, U, P, N, R> = {}
+            ): AsyncGenerator<JoinRow<J, T, U, P, N, R>> {
+              const config: StreamJoinConfig<T, U> = {
+                kind,
+                sourceKey,
+                targetKey: targetKey as JoinKey<U>,
+                keyEquality: options.keyEquality ?? "loose",
+                combine: createRowCombiner(options),
+                copy:
+                  options.clone === false
+                    ? (row) => row
+                    : (row) => structuredClone(row),
+              };
+              const sourceRows = iterateRows(source);
+              const targetRows = iterateRows(target);
+
+              const rows =
+                options.strategy === "sortMerge"
+                  ? streamSortMergeJoin(config, sourceRows, targetRows)
+                  : streamHashJoin(
+                      config,
+                      sourceRows,
+                      targetRows,
+                      options.buildSide ?? defaultBuildSide(source, target)
+                    );
+              return rows as AsyncGenerator<JoinRow<J, T, U, P, N, R>>;
             },
           };
         },
@@ -328,11 +2421,518 @@ export function innerJoin<T>(source: T[]) {
   };
 }
 
+/**
+ * Initiates a streaming left join between two `Iterable` or `AsyncIterable` inputs, for datasets that don't fit in memory.
+ * The chain and the options are the same as `leftJoin`, plus the streaming options of `StreamJoinOptions`.
+ *
+ * @template T Type of objects in the source input.
+ * @param source The source rows for the join operation.
+ * @returns An object with the `in` method, which is used to specify the target rows for the join.
+ * @example
+ * const rows = leftJoinStream(readCustomers()).in(readOrders()).with('id').matching('customerId');
+ * for await (const row of rows) {
+ *   console.log(row);
+ * }
+ */
+export function leftJoinStream<T>(source: AsyncIterable<T> | Iterable<T>) {
+  return streamJoinBuilder("left", source);
+}
+
+/**
+ * Initiates a streaming inner join between two `Iterable` or `AsyncIterable` inputs. See `leftJoinStream`.
+ *
+ * @template T Type of objects in the source input.
+ * @param source The source rows for the join operation.
+ * @returns An object with the `in` method, which is used to specify the target rows for the join.
+ * @example
+ * // Both exports are sorted by customer id, so only one key group of each side is held in memory.
+ * const rows = innerJoinStream(readCustomers()).in(readOrders()).with('id').matching('customerId', { strategy: 'sortMerge' });
+ */
+export function innerJoinStream<T>(source: AsyncIterable<T> | Iterable<T>) {
+  return streamJoinBuilder("inner", source);
+}
+
+/**
+ * Initiates a streaming right join between two `Iterable` or `AsyncIterable` inputs. See `leftJoinStream`.
+ *
+ * @template T Type of objects in the source input.
+ * @param source The source rows for the join operation.
+ * @returns An object with the `in` method, which is used to specify the target rows for the join.
+ */
+export function rightJoinStream<T>(source: AsyncIterable<T> | Iterable<T>) {
+  return streamJoinBuilder("right", source);
+}
+
+/**
+ * Initiates a streaming full outer join between two `Iterable` or `AsyncIterable` inputs. See `leftJoinStream`.
+ *
+ * @template T Type of objects in the source input.
+ * @param source The source rows for the join operation.
+ * @returns An object with the `in` method, which is used to specify the target rows for the join.
+ */
+export function fullOuterJoinStream<T>(source: AsyncIterable<T> | Iterable<T>) {
+  return streamJoinBuilder("fullOuter", source);
+}
+
+/**
+ * Initiates a streaming semi join between two `Iterable` or `AsyncIterable` inputs. See `leftJoinStream`.
+ *
+ * @template T Type of objects in the source input.
+ * @param source The source rows for the join operation.
+ * @returns An object with the `in` method, which is used to specify the target rows for the join.
+ */
+export function semiJoinStream<T>(source: AsyncIterable<T> | Iterable<T>) {
+  return streamJoinBuilder("semi", source);
+}
+
+/**
+ * Initiates a streaming anti join between two `Iterable` or `AsyncIterable` inputs. See `leftJoinStream`.
+ *
+ * @template T Type of objects in the source input.
+ * @param source The source rows for the join operation.
+ * @returns An object with the `in` method, which is used to specify the target rows for the join.
+ */
+export function antiJoinStream<T>(source: AsyncIterable<T> | Iterable<T>) {
+  return streamJoinBuilder("anti", source);
+}
+
+/**
+ * Values that paths don't descend into.
+ */
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: never[]) => unknown);
+
+/**
+ * The dot-separated paths of `T`, such as `"a"`, `"a.b"` or `"items.0.name"`, array indices being numbers.
+ * Recursion stops after 8 levels, which keeps deeply recursive types from slowing the compiler down.
+ */
+export type Path<T, Depth extends unknown[] = []> = Depth["length"] extends 8
+  ? never
+  : T extends PathLeaf
+  ? never
+  : T extends readonly unknown[]
+  ? number extends T["length"]
+    ?
+        | `${number}`
+        | `${number}.${Path<NonNullable<T[number]>, [...Depth, unknown]>}`
+    : {
+        [K in keyof T & `${number}`]:
+          | K
+          | `${K}.${Path<NonNullable<T[K]>, [...Depth, unknown]>}`;
+      }[keyof T & `${number}`]
+  : {
+      [K in keyof T & (string | number)]-?:
+        | `${K}`
+        | `${K}.${Path<NonNullable<T[K]>, [...Depth, unknown]>}`;
+    }[keyof T & (string | number)];
+
+type PathChild<T, K extends string> = T extends null | undefined
+  ? undefined
+  : T extends readonly unknown[]
+  ? K extends keyof T
+    ? T[K]
+    : K extends `${number}`
+    ? T[number]
+    : never
+  : K extends keyof T
+  ? T[K]
+  : K extends `${infer N extends number}`
+  ? N extends keyof T
+    ? T[N]
+    : never
+  : never;
+
+/**
+ * The type of the value found at path `P` of `T`. It includes `undefined` when the path goes through an optional property.
+ */
+export type PathValue<
+  T,
+  P extends string
+> = P extends `${infer Head}.${infer Rest}`
+  ? PathValue<PathChild<T, Head>, Rest>
+  : PathChild<T, P>;
+
+/**
+ * The type of `T` once the value at path `P` is removed: the property at the end of the path becomes optional.
+ * Removing an array item only shortens the array, so the type of the array is kept.
+ */
+export type WithoutPath<
+  T,
+  P extends string
+> = P extends `${infer Head}.${infer Rest}`
+  ? T extends readonly unknown[]
+    ? WithoutPath<T[number], Rest>[]
+    : Head extends keyof T
+    ? { [K in keyof T]: K extends Head ? WithoutPath<T[K], Rest> : T[K] }
+    : T
+  : T extends readonly unknown[]
+  ? T
+  : P extends keyof T
+  ? Omit<T, P> & { [K in P]?: T[K] }
+  : T;
+
+const isObjectLike = (value: unknown): value is Record<PropertyKey, any> =>
+  typeof value === "object" && value !== null;
+
+const hasOwn = (value: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Sets an own enumerable property. Unlike an assignment, it never runs the `__proto__` setter, so a `"__proto__"`
+ * key coming from parsed JSON stays a property instead of replacing the prototype.
+ */
+const setOwn = (object: object, key: PropertyKey, value: unknown): void => {
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+};
+
+/**
+ * Copies an array or an object, keeping the prototype of the object.
+ */
+const shallowCopy = <V extends object>(value: V): V => {
+  if (Array.isArray(value)) {
+    return value.slice() as V;
+  }
+  const copy = Object.create(Object.getPrototypeOf(value));
+  Reflect.ownKeys(value).forEach((key) => {
+    if (Object.prototype.propertyIsEnumerable.call(value, key)) {
+      setOwn(copy, key, (value as Record<PropertyKey, unknown>)[key]);
+    }
+  });
+  return copy;
+};
+
+function getAtPath(value: unknown, segments: string[]): unknown {
+  return segments.reduce<unknown>(
+    (node, segment) => (isObjectLike(node) ? node[segment] : undefined),
+    value
+  );
+}
+
+/**
+ * Returns a copy of `node` with `value` at the given path. Only the nodes along the path are copied,
+ * the other branches are shared, and the node itself is returned when the value is already in place.
+ * Missing nodes are created as arrays when the next segment is an index, and as objects otherwise.
+ */
+function setAtPath(
+  node: unknown,
+  segments: string[],
+  value: unknown,
+  path: string
+): unknown {
+  if (segments.length === 0) {
+    return value;
+  }
+  const [segment, ...rest] = segments;
+  const container =
+    node === undefined || node === null
+      ? /^\d+$/.test(segment)
+        ? []
+        : {}
+      : node;
+  if (!isObjectLike(container)) {
+    throw new TypeError(
+      `Cannot set "${path}": the value holding "${segment}" is a ${typeof container}, not an object.`
+    );
+  }
+  const child = hasOwn(container, segment) ? container[segment] : undefined;
+  const updatedChild = setAtPath(child, rest, value, path);
+  if (
+    container === node &&
+    hasOwn(container, segment) &&
+    Object.is(child, updatedChild)
+  ) {
+    return node;
+  }
+  const copy = shallowCopy(container);
+  setOwn(copy, segment, updatedChild);
+  return copy;
+}
+
+/**
+ * Returns a copy of `node` without the value at the given path, sharing the other branches.
+ * Array items are spliced out, so the following items move down one index.
+ */
+function unsetAtPath(node: unknown, segments: string[]): unknown {
+  const [segment, ...rest] = segments;
+  if (!isObjectLike(node) || !hasOwn(node, segment)) {
+    return node;
+  }
+  if (rest.length > 0) {
+    const child = node[segment];
+    const updatedChild = unsetAtPath(child, rest);
+    if (Object.is(child, updatedChild)) {
+      return node;
+    }
+    const copy = shallowCopy(node);
+    setOwn(copy, segment, updatedChild);
+    return copy;
+  }
+  if (Array.isArray(node)) {
+    return node.filter((_, index) => String(index) !== segment);
+  }
+  const copy = shallowCopy(node);
+  delete copy[segment];
+  return copy;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type OptionalKeys<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? K : never;
+}[keyof T];
+
+/**
+ * The type of `{ ...A, ...B }`: the properties of `B` replace those of `A`, except the optional ones,
+ * which may be missing and leave the value of `A` in place.
+ */
+type Spread<A, B> = Simplify<{
+  [K in keyof A | keyof B]: K extends keyof B
+    ? K extends OptionalKeys<B>
+      ? K extends keyof A
+        ? A[K] | B[K]
+        : B[K]
+      : B[K]
+    : K extends keyof A
+    ? A[K]
+    : never;
+}>;
+
+/**
+ * The type of `T` with the objects `M` spread over it, in order, the later objects winning.
+ */
+export type Merged<T, M extends readonly unknown[]> = M extends readonly [
+  infer Head,
+  ...infer Rest
+]
+  ? Merged<Spread<T, Head>, Rest>
+  : T;
+
+/**
+ * How `deepMerge` combines two arrays found at the same path:
+ *
+ * - `"replace"`: the later array replaces the earlier one.
+ * - `"concat"`: the items of the later array are appended to those of the earlier one.
+ * - `"mergeByIndex"`: the items at the same index are deep merged, the longer array providing the extra items.
+ * - `{ unionBy }`: the items are matched by the given key, or by the result of the given function;
+ *   matching items are deep merged in place and the others are appended. The function receives the items as they
+ *   are, of any type, so it checks them before reading them.
+ */
+export type ArrayMergeStrategy =
+  | "replace"
+  | "concat"
+  | "mergeByIndex"
+  | { unionBy: string | ((item: unknown) => unknown) };
+
+/**
+ * Resolves a conflict at a given path of a deep merge, returning the merged value.
+ * `target` is the value merged so far, and is `undefined` when the path only exists in `source`.
+ * Both values come from the merged objects as they are, so they are `unknown` until checked.
+ */
+export type MergeResolver = (
+  target: unknown,
+  source: unknown,
+  path: string
+) => unknown;
+
+/**
+ * Options for `deepMerge`:
+ *
+ * - `arrays`: how arrays are combined, `"replace"` by default.
+ * - `paths`: an array strategy or a resolver for specific paths, such as `"servers"` or `"servers.0.ports"`,
+ *   overriding `arrays` and the default merge at those paths. Array items are addressed by their index.
+ */
+export type DeepMergeOptions<
+  S extends ArrayMergeStrategy = ArrayMergeStrategy
+> = {
+  arrays?: S;
+  paths?: Record<string, ArrayMergeStrategy | MergeResolver>;
+};
+
+type NotMergeable =
+  | readonly unknown[]
+  | Date
+  | RegExp
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: never[]) => unknown);
+
+type IsMergeable<T> = T extends object
+  ? T extends NotMergeable
+    ? false
+    : true
+  : false;
+
+type DeepMergedValue<A, B, S> = A extends unknown
+  ? B extends unknown
+    ? [IsMergeable<A>, IsMergeable<B>] extends [true, true]
+      ? DeepMergedTwo<A, B, S>
+      : A extends readonly (infer AItem)[]
+      ? B extends readonly (infer BItem)[]
+        ? S extends "replace"
+          ? B
+          : (AItem | BItem)[]
+        : B
+      : B
+    : never
+  : never;
+
+/**
+ * The type of `B` deep merged into `A`. Properties of `B` that may be `undefined` are skipped when they are,
+ * so they may also leave the value of `A` in place.
+ */
+type DeepMergedTwo<A, B, S> = Simplify<{
+  [K in keyof A | keyof B]: K extends keyof B
+    ? K extends keyof A
+      ? undefined extends B[K]
+        ? A[K] | DeepMergedValue<A[K], Exclude<B[K], undefined>, S>
+        : DeepMergedValue<A[K], B[K], S>
+      : B[K]
+    : K extends keyof A
+    ? A[K]
+    : never;
+}>;
+
+/**
+ * The type of `T` with the objects `M` deep merged into it, in order, arrays being combined with strategy `S`.
+ */
+export type DeepMerged<
+  T,
+  M extends readonly unknown[],
+  S = "replace"
+> = M extends readonly [infer Head, ...infer Rest]
+  ? DeepMerged<DeepMergedTwo<T, Head, S>, Rest, S>
+  : T;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!isObjectLike(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || prototype === Object.prototype;
+};
+
+/**
+ * Deep merges `source` into `target` without mutating either. Plain objects are merged key by key, arrays
+ * according to their strategy, and any other value of `source` replaces the value of `target`.
+ * `undefined` values of `source` are skipped, as `buildOptionalObject` does.
+ */
+function deepMergeValues(
+  target: unknown,
+  source: unknown,
+  path: string[],
+  options: DeepMergeOptions
+): unknown {
+  const { arrays = "replace", paths = {} } = options;
+  const pathKey = path.join(".");
+  const override = path.length > 0 ? paths[pathKey] : undefined;
+
+  if (typeof override === "function") {
+    return override(target, source, pathKey);
+  }
+  if (source === undefined) {
+    return target;
+  }
+
+  if (Array.isArray(target) && Array.isArray(source)) {
+    const strategy = override ?? arrays;
+    if (strategy === "replace") {
+      return source;
+    }
+    if (strategy === "concat") {
+      return [...target, ...source];
+    }
+    if (strategy === "mergeByIndex") {
+      return Array.from(
+        { length: Math.max(target.length, source.length) },
+        (_, index) =>
+          index < source.length
+            ? deepMergeValues(
+                target[index],
+                source[index],
+                [...path, String(index)],
+                options
+              )
+            : target[index]
+      );
+    }
+
+    const { unionBy } = strategy;
+    const getKey = (item: unknown) =>
+      stableStringify(
+        typeof unionBy === "function"
+          ? unionBy(item)
+          : isObjectLike(item)
+          ? item[unionBy]
+          : item
+      );
+    const result = target.slice();
+    const indexByKey = new Map<string, number>();
+    result.forEach((item, index) => {
+      const key = getKey(item);
+      if (!indexByKey.has(key)) {
+        indexByKey.set(key, index);
+      }
+    });
+    source.forEach((item) => {
+      const key = getKey(item);
+      const index = indexByKey.get(key);
+      if (index === undefined) {
+        indexByKey.set(key, result.length);
+        result.push(item);
+      } else {
+        result[index] = deepMergeValues(
+          result[index],
+          item,
+          [...path, String(index)],
+          options
+        );
+      }
+    });
+    return result;
+  }
+
+  if (isPlainObject(target) && isPlainObject(source)) {
+    const result = shallowCopy(target);
+    Object.keys(source).forEach((key) => {
+      const merged = deepMergeValues(
+        hasOwn(target, key) ? target[key] : undefined,
+        source[key],
+        [...path, key],
+        options
+      );
+      if (merged !== undefined || hasOwn(target, key)) {
+        setOwn(result, key, merged);
+      }
+    });
+    return result;
+  }
+
+  return source;
+}
+
 /**
  * A utility function for operations on objects that promotes immutability and type safety.
  * It provides methods to pick specific keys, remove specific keys, and merge objects.
  * The initial call to `object` performs a deep clone of the provided object to ensure
  * that subsequent operations do not mutate the original object.
+ * The path methods (`get`, `set`, `update`, `unset` and `has`) work on the original object instead,
+ * so that the objects they return share their unchanged branches with it.
  *
  * @template T - The type of the input object, must extend `object`.
  * @param {T} obj - The original object to perform operations on.
@@ -386,22 +2986,70 @@ export function object<T extends object>(obj: T) {
 
     /**
      * Merges one or more objects into the original object and returns a new object.
+     * Only the top-level properties are merged: a nested object of a mixin replaces the whole nested object.
      * @template M - The types of the mixin objects to be merged.
      * @param {...M} mixins - The objects to merge with the original object.
-     * @returns {T & UnionToIntersection<M[number]>} A new object that combines the original object with the mixin objects.
+     * @returns {Merged<T, M>} A new object that combines the original object with the mixin objects, the later ones winning.
      * @example
      * // Merge objects
      * const additional = { country: 'USA', occupation: 'Engineer' };
      * const merged = object(original).merge(additional);
      * console.log(merged); // Output: { name: 'John Doe', age: 30, city: 'New York', country: 'USA', occupation: 'Engineer' }
      */
-    merge<M extends object[]>(
-      ...mixins: M
-    ): T & UnionToIntersection<M[number]> {
+    merge<M extends object[]>(...mixins: M): Merged<T, M> {
       const resultObject = mixins.reduce((acc, mixin) => {
         return { ...acc, ...mixin };
       }, clonedObj);
-      return resultObject as T & UnionToIntersection<M[number]>;
+      return resultObject as Merged<T, M>;
+    },
+
+    /**
+     * Deep merges one or more objects into the original object and returns a new object.
+     * Nested plain objects are merged key by key, arrays and other values of the later objects replace the earlier ones,
+     * and `undefined` values are skipped, so an optional property left unset does not erase a value.
+     * @template M - The types of the mixin objects to be merged.
+     * @param {...M} mixins - The objects to merge with the original object.
+     * @returns {DeepMerged<T, M>} A new object that combines the original object with the mixin objects, the later ones winning.
+     * @example
+     * const config = { server: { host: 'localhost', port: 80 }, tags: ['web'] };
+     * const merged = object(config).deepMerge({ server: { port: 8080 }, tags: ['api'] });
+     * console.log(merged); // Output: { server: { host: 'localhost', port: 8080 }, tags: ['api'] }
+     */
+    deepMerge<M extends object[]>(...mixins: M): DeepMerged<T, M> {
+      return mixins.reduce<unknown>(
+        (acc, mixin) => deepMergeValues(acc, mixin, [], {}),
+        clonedObj
+      ) as DeepMerged<T, M>;
+    },
+
+    /**
+     * Deep merges one or more objects into the original object like `deepMerge`, with a strategy for arrays
+     * and strategies or resolvers for specific paths.
+     * The return type models the default array strategy; values produced by `paths` are not reflected in it.
+     * @template S - The array strategy.
+     * @template M - The types of the mixin objects to be merged.
+     * @param {DeepMergeOptions<S>} options - The array strategy and the per-path strategies and resolvers.
+     * @param {...M} mixins - The objects to merge with the original object.
+     * @returns {DeepMerged<T, M, S>} A new object that combines the original object with the mixin objects, the later ones winning.
+     * @example
+     * const config = { plugins: [{ name: 'auth', enabled: false }], version: 1 };
+     * const merged = object(config).deepMergeWith(
+     *   {
+     *     arrays: { unionBy: 'name' },
+     *     paths: { version: (current, next) => Math.max(Number(current), Number(next)) },
+     *   },
+     *   { plugins: [{ name: 'auth', enabled: true }, { name: 'cache' }], version: 0 }
+     * );
+     * console.log(merged); // Output: { plugins: [{ name: 'auth', enabled: true }, { name: 'cache' }], version: 1 }
+     */
+    deepMergeWith<
+      S extends ArrayMergeStrategy = "replace",
+      M extends object[] = []
+    >(options: DeepMergeOptions<S>, ...mixins: M): DeepMerged<T, M, S> {
+      return mixins.reduce<unknown>(
+        (acc, mixin) => deepMergeValues(acc, mixin, [], options),
+        clonedObj
+      ) as DeepMerged<T, M, S>;
     },
 
     /**
@@ -431,17 +3079,112 @@ export function object<T extends object>(obj: T) {
     },
 
     /**
-     * Compares the current object with another object to determine if they are deeply equal.
+     * Compares the current object with another object to determine if they are deeply equal. See `deepEqual`.
      *
      * @param {T} otherObj - The object to compare with the current object.
+     * @param {DeepEqualOptions} [options] - Keys to ignore, array ordering and numeric tolerance.
      * @returns {boolean} True if the objects are deeply equal, false otherwise.
      *
      * @example
      * const isEqual = object(original).deepCompare(anotherObject);
      * console.log(isEqual); // Output: true or false
      */
-    deepCompare(otherObj: T): boolean {
-      return deepEqual(clonedObj, otherObj);
+    deepCompare(otherObj: T, options?: DeepEqualOptions): boolean {
+      return deepEqual(clonedObj, otherObj, options);
+    },
+
+    /**
+     * Reads the value at a dot-separated path, array indices being numbers.
+     * Returns `undefined` when a node along the path is missing.
+     *
+     * @template P - The path, checked against `T`.
+     * @param {P} path - The path to read, such as `'a.b.0.c'`.
+     * @returns {PathValue<T, P>} The value at the path.
+     *
+     * @example
+     * const config = { server: { ports: [8080, 8443] } };
+     * const port = object(config).get('server.ports.1'); // 8443, typed as number
+     */
+    get<P extends Path<T>>(path: P): PathValue<T, P> {
+      return getAtPath(obj, path.split(".")) as PathValue<T, P>;
+    },
+
+    /**
+     * Returns a new object with `value` at a dot-separated path, creating the missing nodes on the way.
+     * The original object is left untouched: only the nodes along the path are copied, and the other
+     * branches are shared with it.
+     *
+     * @template P - The path, checked against `T`.
+     * @param {P} path - The path to write, such as `'a.b.0.c'`.
+     * @param {PathValue<T, P>} value - The value to write, checked against the type at the path.
+     * @returns {T} A new object.
+     *
+     * @example
+     * const updated = object(config).set('server.ports.0', 80);
+     * console.log(updated.server.ports); // Output: [80, 8443]
+     * console.log(config.server.ports); // Output: [8080, 8443]
+     */
+    set<P extends Path<T>>(path: P, value: PathValue<T, P>): T {
+      return setAtPath(obj, path.split("."), value, path) as T;
+    },
+
+    /**
+     * Returns a new object where the value at a dot-separated path is replaced by the result of `updater`,
+     * sharing the unchanged branches with the original object like `set`.
+     *
+     * @template P - The path, checked against `T`.
+     * @param {P} path - The path to update.
+     * @param {(value: PathValue<T, P>) => PathValue<T, P>} updater - Computes the new value from the current one.
+     * @returns {T} A new object.
+     *
+     * @example
+     * const bumped = object(config).update('server.ports', (ports) => [...ports, 9000]);
+     */
+    update<P extends Path<T>>(
+      path: P,
+      updater: (value: PathValue<T, P>) => PathValue<T, P>
+    ): T {
+      const segments = path.split(".");
+      const value = updater(getAtPath(obj, segments) as PathValue<T, P>);
+      return setAtPath(obj, segments, value, path) as T;
+    },
+
+    /**
+     * Returns a new object without the value at a dot-separated path, sharing the unchanged branches with the
+     * original object. Array items are removed, so the following items move down one index.
+     * The original object itself is returned when there is nothing to remove.
+     *
+     * @template P - The path, checked against `T`.
+     * @param {P} path - The path to remove.
+     * @returns {WithoutPath<T, P>} A new object, where the removed property is optional.
+     *
+     * @example
+     * const withoutTls = object(config).unset('server.ports.1');
+     * console.log(withoutTls.server.ports); // Output: [8080]
+     */
+    unset<P extends Path<T>>(path: P): WithoutPath<T, P> {
+      return unsetAtPath(obj, path.split(".")) as WithoutPath<T, P>;
+    },
+
+    /**
+     * Tells whether a value exists at a dot-separated path, as an own property of each node along the way.
+     *
+     * @template P - The path, checked against `T`.
+     * @param {P} path - The path to look for.
+     * @returns {boolean} True if the path exists, even when the value there is `undefined`.
+     *
+     * @example
+     * object(config).has('server.ports.2'); // false
+     */
+    has<P extends Path<T>>(path: P): boolean {
+      let node: unknown = obj;
+      for (const segment of path.split(".")) {
+        if (!isObjectLike(node) || !hasOwn(node, segment)) {
+          return false;
+        }
+        node = node[segment];
+      }
+      return true;
     },
   };
 }
@@ -456,64 +3199,143 @@ type ComplexObject =
 export type ArrayElement = Primitive | ComplexObject;
 
 /**
- * Removes duplicate elements from an array. This function supports a wide range
- * of element types, including objects, arrays, Sets, Maps, strings, numbers,
- * and booleans. For complex structures like objects, arrays, Sets, and Maps,
- * duplicates are identified by their serialized JSON string representation.
- * This ensures that elements with the same structure but different references
- * are considered duplicates. Primitives like strings, numbers, and booleans
- * are compared directly.
+ * Options for `uniqueBy`:
+ *
+ * - `onDuplicate`: which of the items sharing a key is kept, `"keepFirst"` by default.
+ *   The kept items stay in the order of the array.
+ * - `reportDuplicates`: when `true`, returns the dropped items along with the unique ones.
+ */
+export type UniqueByOptions = {
+  onDuplicate?: "keepFirst" | "keepLast";
+  reportDuplicates?: boolean;
+};
+
+/**
+ * An item dropped by `uniqueBy`: its index in the array, and the index of the item kept in its place.
+ */
+export type DroppedDuplicate<T> = { item: T; index: number; keptIndex: number };
+
+export type UniqueByReport<T> = {
+  unique: T[];
+  duplicates: DroppedDuplicate<T>[];
+};
+
+/**
+ * Removes the items of an array whose key was already seen, the key being a property of the items
+ * or the result of a selector.
+ * Primitive keys are compared directly, like in a `Set`, and object keys by their `stableStringify`
+ * representation, so two object keys match when `deepEqual` considers them equal: the order of object keys
+ * does not matter, Dates are compared by timestamp, Errors by name and message, Maps and Sets by their entries,
+ * and circular structures are supported. Functions and opaque objects, such as Promises, only match themselves.
+ *
+ * @template T - The type of the items.
+ * @param {T[]} array - The array to remove duplicates from.
+ * @param {keyof T | ((item: T, index: number) => unknown)} selector - The property holding the key of each item, or a function returning it.
+ * @param {UniqueByOptions} [options] - Which item is kept, and whether the dropped items are reported.
+ * @returns {T[] | UniqueByReport<T>} The unique items, or, with `reportDuplicates`, the unique items and the dropped ones.
  *
- * Dont use objects with methods or functions, as they will be stringified and
+ * @example
+ * const users = [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }, { id: 1, name: 'Alicia' }];
+ * console.log(uniqueBy(users, 'id')); // Output: [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }]
+ * console.log(uniqueBy(users, 'id', { onDuplicate: 'keepLast' })); // Output: [{ id: 2, name: 'Bob' }, { id: 1, name: 'Alicia' }]
+ *
+ * @example
+ * const { unique, duplicates } = uniqueBy(users, (user) => ({ id: user.id }), { reportDuplicates: true });
+ * console.log(duplicates); // Output: [{ item: { id: 1, name: 'Alicia' }, index: 2, keptIndex: 0 }]
+ */
+export function uniqueBy<T>(
+  array: T[],
+  selector: keyof T | ((item: T, index: number) => unknown),
+  options?: UniqueByOptions & { reportDuplicates?: false }
+): T[];
+export function uniqueBy<T>(
+  array: T[],
+  selector: keyof T | ((item: T, index: number) => unknown),
+  options: UniqueByOptions & { reportDuplicates: true }
+): UniqueByReport<T>;
+export function uniqueBy<T>(
+  array: T[],
+  selector: keyof T | ((item: T, index: number) => unknown),
+  options: UniqueByOptions = {}
+): T[] | UniqueByReport<T> {
+  const { onDuplicate = "keepFirst", reportDuplicates = false } = options;
+  const select =
+    typeof selector === "function"
+      ? selector
+      : (item: T): unknown => item[selector];
+
+  // Each distinct key gets a slot holding the index of the item kept for it.
+  const primitiveSlots = new Map<unknown, number>();
+  const objectSlots = new Map<unknown, number>();
+  const keptIndexes: number[] = [];
+  const slots = array.map((item, index) => {
+    const key = select(item, index);
+    const slotMap = isObjectLike(key) ? objectSlots : primitiveSlots;
+    const slotKey = isObjectLike(key) ? stableStringify(key) : key;
+    const slot = slotMap.get(slotKey);
+    if (slot === undefined) {
+      slotMap.set(slotKey, keptIndexes.length);
+      keptIndexes.push(index);
+      return keptIndexes.length - 1;
+    }
+    if (onDuplicate === "keepLast") {
+      keptIndexes[slot] = index;
+    }
+    return slot;
+  });
+
+  const unique: T[] = [];
+  const duplicates: DroppedDuplicate<T>[] = [];
+  array.forEach((item, index) => {
+    const keptIndex = keptIndexes[slots[index]];
+    if (keptIndex === index) {
+      unique.push(item);
+    } else {
+      duplicates.push({ item, index, keptIndex });
+    }
+  });
+
+  return reportDuplicates ? { unique, duplicates } : unique;
+}
+
+/**
+ * Removes duplicate elements from an array, keeping the first occurrence of each. This function supports
+ * a wide range of element types, including objects, arrays, Sets, Maps, Dates, BigInts, strings, numbers,
+ * and booleans. Elements with the same structure but different references are considered duplicates:
+ * they are compared by their `stableStringify` representation, so they are duplicates when `deepEqual` considers
+ * them equal: the order of object keys does not matter and circular structures are supported.
+ * Primitives are compared directly, like in a `Set`.
  *
- * Note: Using JSON.stringify for comparison may have limitations, such as not
- * properly handling circular references or special object types like Date.
+ * Use `uniqueBy` to compare the elements by a key, keep the last occurrences, or find out which
+ * elements were dropped.
  *
- * @param {ArrayElement[]} array - The array from which to remove duplicates.
- *                                  The array can contain elements of various types.
- * @returns {ArrayElement[]} A new array with duplicates removed.
+ * @param {T[]} array - The array from which to remove duplicates.
+ *                      The array can contain elements of various types.
+ * @returns {T[]} A new array with duplicates removed.
  *
  * @example
  * // Remove duplicates from an array of objects, arrays, and primitives
  * const data = [
- *   new Set([1, 2, 3]), new Set([1, 2, 3]),
- *   new Map([['key', 'value']]), new Map([['key', 'value']])
+ *   new Set([1, 2, 3]), new Set([3, 2, 1]),
+ *   new Map([['key', 'value']]), new Map([['key', 'value']]),
+ *   { a: 1, b: 2 }, { b: 2, a: 1 }
  * ];
- * const uniqueData = removeDuplicates(data);
- * console.log(uniqueData);
+ * const uniqueData = removeDuplicatesFromArray(data);
+ * console.log(uniqueData); // Output: [Set {1, 2, 3}, Map {'key' => 'value'}, { a: 1, b: 2 }]
  *
  * @example
  * // Remove duplicates from an array of strings and numbers
  * const primitives = [1, 2, 2, 'hello', 'world', 'hello'];
- * const uniquePrimitives = removeDuplicates(primitives);
- * console.log(uniquePrimitives);
+ * const uniquePrimitives = removeDuplicatesFromArray(primitives);
+ * console.log(uniquePrimitives); // Output: [1, 2, 'hello', 'world']
  */
-
 export function removeDuplicatesFromArray<T>(array: T[]): T[] {
-  const seen = new Set<string>();
-  const result: T[] = [];
-
-  array.forEach((item) => {
-    const key = JSON.stringify(item, (_, value) => {
-      if (value instanceof Set) {
-        return Array.from(value);
-      }
-
-      if (value instanceof Map) {
-        return Array.from(value.entries());
-      }
-
-      return value;
-    });
-
-    if (!seen.has(key)) {
-      seen.add(key);
-      result.push(item);
-    }
-  });
-
-  return result;
+  if (!array.some(isObjectLike)) {
+    return Array.from(new Set(array));
+  }
+  return uniqueBy(array, (item) => item);
 }
+
 export function buildOptionalObject<T extends object>(fields: T): Partial<T> {
   return Object.entries(fields).reduce((obj, [key, value]) => {
     if (value !== undefined) {
@@ -0,0 +1,402 @@
+/**
+ * Options accepted by the date functions. `timeZone` is the IANA time zone the calendar is read in,
+ * such as `"Europe/Paris"`. Dates are handled in UTC when it is omitted, never in the system time zone.
+ */
+export type DateOptions = {
+  timeZone?: string;
+};
+
+export type DateUnit = "day" | "week" | "month" | "quarter" | "year";
+
+const timeZoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getTimeZoneFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = timeZoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    timeZoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Returns the offset of a time zone at a given time, in minutes, with the sign of `Date#getTimezoneOffset`
+ * (positive west of UTC).
+ */
+const getTimeZoneOffset = (timestamp: number, timeZone: string): number => {
+  if (timeZone === "UTC") {
+    return 0;
+  }
+  const parts = getTimeZoneFormatter(timeZone).formatToParts(timestamp);
+  const getPart = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const wallTime = Date.UTC(
+    getPart("year"),
+    getPart("month") - 1,
+    getPart("day"),
+    getPart("hour"),
+    getPart("minute"),
+    getPart("second")
+  );
+  const wholeSeconds = Math.floor(timestamp / 1000) * 1000;
+  return (wholeSeconds - wallTime) / 60000;
+};
+
+/**
+ * Returns a Date whose UTC fields hold the wall clock time of a date in a time zone.
+ */
+const toWallTime = (date: Date, timeZone: string): Date =>
+  new Date(
+    date.getTime() - getTimeZoneOffset(date.getTime(), timeZone) * 60000
+  );
+
+/**
+ * Returns the date of a wall clock time, held in the UTC fields of a Date, in a time zone.
+ */
+const fromWallTime = (wallTime: Date, timeZone: string): Date => {
+  const estimate =
+    wallTime.getTime() +
+    getTimeZoneOffset(wallTime.getTime(), timeZone) * 60000;
+  return new Date(
+    wallTime.getTime() + getTimeZoneOffset(estimate, timeZone) * 60000
+  );
+};
+
+/**
+ * Applies a calendar change to the wall clock time of a date in the time zone of the options,
+ * and returns the resulting date.
+ */
+const updateWallTime = (
+  date: Date,
+  { timeZone = "UTC" }: DateOptions,
+  update: (wallTime: Date) => void
+): Date => {
+  const wallTime = toWallTime(date, timeZone);
+  update(wallTime);
+  return fromWallTime(wallTime, timeZone);
+};
+
+/**
+ * Adds a number of calendar days to a date, keeping its time of day in the time zone of the options,
+ * even across a daylight saving time change.
+ *
+ * @param {Date} date - The date to add days to.
+ * @param {number} amount - The number of days to add, negative to subtract.
+ * @param {DateOptions} [options] - The time zone, UTC by default.
+ * @returns {Date} A new Date.
+ *
+ * @example
+ * addDays(new Date('2024-02-28T10:00:00Z'), 2); // 2024-03-01T10:00:00Z
+ */
+export function addDays(
+  date: Date,
+  amount: number,
+  options: DateOptions = {}
+): Date {
+  return updateWallTime(date, options, (wallTime) =>
+    wallTime.setUTCDate(wallTime.getUTCDate() + amount)
+  );
+}
+
+/**
+ * Adds a number of months to a date. When the target month is shorter than the day of the date,
+ * the result is clamped to the last day of that month instead of overflowing into the next one.
+ *
+ * @param {Date} date - The date to add months to.
+ * @param {number} amount - The number of months to add, negative to subtract.
+ * @param {DateOptions} [options] - The time zone, UTC by default.
+ * @returns {Date} A new Date.
+ *
+ * @example
+ * addMonths(new Date('2024-03-31'), -1); // 2024-02-29
+ * addMonths(new Date('2024-01-31'), 1, { timeZone: 'America/New_York' }); // 2024-02-29 in New York
+ */
+export function addMonths(
+  date: Date,
+  amount: number,
+  options: DateOptions = {}
+): Date {
+  return updateWallTime(date, options, (wallTime) => {
+    const day = wallTime.getUTCDate();
+    wallTime.setUTCDate(1);
+    wallTime.setUTCMonth(wallTime.getUTCMonth() + amount);
+    const lastDayOfMonth = new Date(
+      Date.UTC(wallTime.getUTCFullYear(), wallTime.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    wallTime.setUTCDate(Math.min(day, lastDayOfMonth));
+  });
+}
+
+/**
+ * Adds a number of years to a date, clamping February 29 to February 28 on common years.
+ *
+ * @param {Date} date - The date to add years to.
+ * @param {number} amount - The number of years to add, negative to subtract.
+ * @param {DateOptions} [options] - The time zone, UTC by default.
+ * @returns {Date} A new Date.
+ *
+ * @example
+ * addYears(new Date('2024-02-29'), 1); // 2025-02-28
+ */
+export function addYears(
+  date: Date,
+  amount: number,
+  options: DateOptions = {}
+): Date {
+  return addMonths(date, amount * 12, options);
+}
+
+/**
+ * Returns the start of the day, week, month, quarter or year a date falls in, at midnight in the time zone of the options.
+ * Weeks start on Monday, as in ISO 8601, unless `weekStartsOn` says otherwise (0 for Sunday to 6 for Saturday).
+ *
+ * @param {Date} date - The date.
+ * @param {DateUnit} unit - The period to get the start of.
+ * @param {DateOptions & { weekStartsOn?: number }} [options] - The time zone, UTC by default, and the first day of the week.
+ * @returns {Date} A new Date.
+ *
+ * @example
+ * startOf(new Date('2024-05-16T15:30:00Z'), 'week'); // 2024-05-13T00:00:00Z, a Monday
+ * startOf(new Date('2024-05-16T15:30:00Z'), 'quarter'); // 2024-04-01T00:00:00Z
+ * startOf(new Date('2024-05-16T15:30:00Z'), 'day', { timeZone: 'Asia/Tokyo' }); // 2024-05-16T15:00:00Z, midnight on May 17 in Tokyo
+ */
+export function startOf(
+  date: Date,
+  unit: DateUnit,
+  options: DateOptions & { weekStartsOn?: number } = {}
+): Date {
+  const { weekStartsOn = 1 } = options;
+  return updateWallTime(date, options, (wallTime) => {
+    wallTime.setUTCHours(0, 0, 0, 0);
+    if (unit === "week") {
+      const daysIntoWeek = (wallTime.getUTCDay() - weekStartsOn + 7) % 7;
+      wallTime.setUTCDate(wallTime.getUTCDate() - daysIntoWeek);
+    } else if (unit === "month") {
+      wallTime.setUTCDate(1);
+    } else if (unit === "quarter") {
+      const month = wallTime.getUTCMonth();
+      wallTime.setUTCMonth(month - (month % 3), 1);
+    } else if (unit === "year") {
+      wallTime.setUTCMonth(0, 1);
+    }
+  });
+}
+
+/**
+ * Formats the calendar date of a date in the time zone of the options, as `YYYY-MM-DD`.
+ *
+ * @param {Date} date - The date to format.
+ * @param {DateOptions} [options] - The time zone, UTC by default.
+ * @returns {string} The date in string format (YYYY-MM-DD).
+ *
+ * @example
+ * toISODate(new Date('2024-05-16T23:30:00Z')); // '2024-05-16'
+ * toISODate(new Date('2024-05-16T23:30:00Z'), { timeZone: 'Europe/Paris' }); // '2024-05-17'
+ */
+export function toISODate(date: Date, options: DateOptions = {}): string {
+  const { timeZone = "UTC" } = options;
+  return toWallTime(date, timeZone).toISOString().split("T")[0];
+}
+
+/**
+ * Adds a number of periods of the given unit to a date, with the clamping of `addMonths` for months, quarters and years.
+ *
+ * @param {Date} date - The date to add periods to.
+ * @param {number} amount - The number of periods to add, negative to subtract.
+ * @param {DateUnit} unit - The period.
+ * @param {DateOptions} [options] - The time zone, UTC by default.
+ * @returns {Date} A new Date.
+ *
+ * @example
+ * addPeriods(new Date('2024-05-16'), -2, 'quarter'); // 2023-11-16
+ */
+export function addPeriods(
+  date: Date,
+  amount: number,
+  unit: DateUnit,
+  options: DateOptions = {}
+): Date {
+  switch (unit) {
+    case "day":
+      return addDays(date, amount, options);
+    case "week":
+      return addDays(date, amount * 7, options);
+    case "month":
+      return addMonths(date, amount, options);
+    case "quarter":
+      return addMonths(date, amount * 3, options);
+    case "year":
+      return addYears(date, amount, options);
+  }
+}
+
+/**
+ * Options accepted by `dateRange`.
+ *
+ * - `step`: the unit between two dates, `"day"` by default.
+ * - `every`: the number of units between two dates (default 1).
+ * - `align`: starts the range at the start of the period `start` falls in, as given by `startOf` (default true).
+ *   When false, the range starts at `start` itself and keeps its time of day.
+ * - `inclusive`: includes `end` itself when it falls on a step (default true). When false, the range is half-open.
+ * - `weekStartsOn`: the first day of the week when aligning weeks, Monday by default as in ISO 8601 (0 for Sunday).
+ * - `timeZone`: the time zone the calendar is read in, UTC by default.
+ */
+export type DateRangeOptions = DateOptions & {
+  step?: DateUnit;
+  every?: number;
+  align?: boolean;
+  inclusive?: boolean;
+  weekStartsOn?: number;
+};
+
+/**
+ * Lazily generates the dates from `start` to `end`, one step apart. Each date is computed from the first one,
+ * so month steps don't drift when a month is shorter: starting on January 31 yields February 29, then March 31.
+ *
+ * @param {Date} start - The start of the range.
+ * @param {Date} end - The end of the range.
+ * @param {DateRangeOptions} [options] - The step, alignment, bounds and time zone.
+ * @returns {Generator<Date>} A generator of new Date objects.
+ * @throws {RangeError} When `start` or `end` is an Invalid Date, or `every` is not a positive integer.
+ *
+ * @example
+ * // The ISO weeks of the first quarter
+ * const weeks = Array.from(dateRange(new Date('2024-01-01'), new Date('2024-04-01'), { step: 'week', inclusive: false }));
+ *
+ * @example
+ * // Iterate over ten years of days without building an array
+ * for (const day of dateRange(new Date('2015-01-01'), new Date('2024-12-31'))) {
+ *   await processDay(day);
+ * }
+ */
+export function* dateRange(
+  start: Date,
+  end: Date,
+  options: DateRangeOptions = {}
+): Generator<Date, void, undefined> {
+  const { step = "day", every = 1, align = true, inclusive = true } = options;
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new RangeError("The bounds of a date range must be valid dates.");
+  }
+  if (!Number.isInteger(every) || every < 1) {
+    throw new RangeError(
+      `The step count of a date range must be a positive integer, got ${every}.`
+    );
+  }
+
+  const firstDate = align ? startOf(start, step, options) : start;
+  for (let index = 0; ; index++) {
+    const date = addPeriods(firstDate, index * every, step, options);
+    if (inclusive ? date > end : date >= end) {
+      return;
+    }
+    yield date;
+  }
+}
+
+/**
+ * Options accepted by `createBusinessCalendar`.
+ *
+ * - `weekend`: the days of the week that are not worked, from 0 for Sunday to 6 for Saturday (Saturday and Sunday by default).
+ * - `holidays`: the days off, as Dates or `YYYY-MM-DD` strings.
+ * - `timeZone`: the time zone the calendar is read in, UTC by default.
+ */
+export type BusinessCalendarOptions = DateOptions & {
+  weekend?: number[];
+  holidays?: Array<Date | string>;
+};
+
+/**
+ * A business-day calendar built by `createBusinessCalendar`.
+ *
+ * - `isBusinessDay`: tells whether a date falls on a business day.
+ * - `addBusinessDays`: moves a date by a number of business days, keeping its time of day. The date itself is not counted,
+ *   so adding 1 business day to a Friday gives the next Monday.
+ * - `countBusinessDays`: counts the business days from `start` included to `end` excluded, negative if `end` comes first.
+ */
+export type BusinessCalendar = {
+  isBusinessDay: (date: Date) => boolean;
+  addBusinessDays: (date: Date, amount: number) => Date;
+  countBusinessDays: (start: Date, end: Date) => number;
+};
+
+/**
+ * Creates a business-day calendar with the given weekend and holidays.
+ *
+ * @param {BusinessCalendarOptions} [options] - The weekend days, holidays and time zone.
+ * @returns {BusinessCalendar} The calendar.
+ *
+ * @example
+ * const calendar = createBusinessCalendar({ holidays: ['2024-12-25', '2024-12-26'], timeZone: 'Europe/London' });
+ *
+ * calendar.addBusinessDays(new Date('2024-12-24T09:00:00Z'), 1); // 2024-12-27T09:00:00Z
+ * calendar.countBusinessDays(new Date('2024-12-23'), new Date('2024-12-30')); // 3
+ */
+export function createBusinessCalendar(
+  options: BusinessCalendarOptions = {}
+): BusinessCalendar {
+  const { weekend = [0, 6], holidays = [] } = options;
+  const weekendDays = new Set(weekend);
+  const holidayDates = new Set(
+    holidays.map((holiday) =>
+      typeof holiday === "string" ? holiday : toISODate(holiday, options)
+    )
+  );
+  if (weekendDays.size >= 7) {
+    throw new RangeError("A business calendar needs at least one working day.");
+  }
+
+  const isBusinessDay = (date: Date): boolean => {
+    const day = startOf(date, "day", options);
+    return (
+      !weekendDays.has(
+        toWallTime(day, options.timeZone ?? "UTC").getUTCDay()
+      ) && !holidayDates.has(toISODate(day, options))
+    );
+  };
+
+  const addBusinessDays = (date: Date, amount: number): Date => {
+    if (!Number.isInteger(amount)) {
+      throw new RangeError(
+        `The number of business days to add must be an integer, got ${amount}.`
+      );
+    }
+    const direction = Math.sign(amount);
+    let remaining = Math.abs(amount);
+    let result = date;
+    while (remaining > 0) {
+      result = addDays(result, direction, options);
+      if (isBusinessDay(result)) {
+        remaining--;
+      }
+    }
+    return result;
+  };
+
+  const countBusinessDays = (start: Date, end: Date): number => {
+    if (end < start) {
+      return -countBusinessDays(end, start);
+    }
+    let count = 0;
+    for (const day of dateRange(start, startOf(end, "day", options), {
+      ...options,
+      inclusive: false,
+    })) {
+      if (isBusinessDay(day)) {
+        count++;
+      }
+    }
+    return count;
+  };
+
+  return { isBusinessDay, addBusinessDays, countBusinessDays };
+}
@@ -0,0 +1,267 @@
+import { mkdir, open, rename, rm, stat, writeFile } from "fs/promises";
+import { join } from "path";
+import type { AsyncCacheStorage, AsyncCacheStorageEntry } from "./async-data";
+
+/**
+ * Options accepted by `createFileCacheStorage`.
+ *
+ * - `directory`: the directory holding the cache files. It is created when missing.
+ * - `namespace`: the name of the cache file, without extension. Each namespace is stored in its own file.
+ * - `writeDelay`: how long, in milliseconds, changes are collected before the file is written. Defaults to 50.
+ */
+export type FileCacheStorageOptions = {
+  directory: string;
+  namespace: string;
+  writeDelay?: number;
+};
+
+type StoredEntries<V> = Map<string, AsyncCacheStorageEntry<V>>;
+
+/**
+ * The changes not written to the file yet: the entries set, `undefined` for the deleted ones,
+ * and whether the entries already in the file are cleared.
+ */
+type PendingChanges<V> = {
+  entries: Map<string, AsyncCacheStorageEntry<V> | undefined>;
+  cleared: boolean;
+};
+
+/**
+ * How long a lock file may be held before it is considered left behind by a crashed process.
+ */
+const staleLockMs = 10000;
+const lockRetryMs = 10;
+
+const isMissingFile = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException).code === "ENOENT";
+
+/**
+ * Identifies a version of a file: replacing it by a rename or rewriting it changes the version.
+ */
+const versionOf = ({
+  ino,
+  mtimeMs,
+  size,
+}: {
+  ino: number;
+  mtimeMs: number;
+  size: number;
+}): string => `${ino}:${mtimeMs}:${size}`;
+
+const applyChanges = <V>(
+  fileEntries: Record<string, AsyncCacheStorageEntry<V>>,
+  changes: PendingChanges<V>
+): StoredEntries<V> => {
+  const entries: StoredEntries<V> = new Map(
+    changes.cleared ? [] : Object.entries(fileEntries)
+  );
+  changes.entries.forEach((entry, key) =>
+    entry === undefined ? entries.delete(key) : entries.set(key, entry)
+  );
+  return entries;
+};
+
+/**
+ * Creates the lock file of a cache file, waiting while another process holds it.
+ * Returns the function releasing it.
+ */
+async function acquireLock(lockPath: string): Promise<() => Promise<void>> {
+  for (;;) {
+    try {
+      await (await open(lockPath, "wx")).close();
+      return () => rm(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+    const lock = await stat(lockPath).catch((error) => {
+      if (isMissingFile(error)) {
+        return undefined;
+      }
+      throw error;
+    });
+    if (lock && Date.now() - lock.mtimeMs > staleLockMs) {
+      await rm(lockPath, { force: true });
+    } else if (lock) {
+      await new Promise((resolve) => setTimeout(resolve, lockRetryMs));
+    }
+  }
+}
+
+/**
+ * Creates an `AsyncCacheStorage` persisting its entries in a JSON file, `<directory>/<namespace>.json`,
+ * so that cached results survive CLI reruns and batch jobs, and are shared by the processes using the same file.
+ *
+ * The storage works on an in-memory copy of the file, read again only when the file has changed since, which
+ * a `stat` tells. Changes are written back in batches: the changes made within `writeDelay` of each other are
+ * written together, and `set`, `delete` and `clear` resolve once the batch holding them is written. Each batch
+ * is applied to the current content of the file while holding a lock file, so that processes sharing the file
+ * keep each other's entries. The file is replaced by renaming a temporary file, so a crash never leaves
+ * a truncated file behind, and a lock left behind by a crashed process is removed after 10 seconds.
+ *
+ * Values must survive a JSON round trip: they are serialized when set, so a value that cannot be serialized
+ * is rejected right away.
+ *
+ * This module depends on Node's `fs` and is not exported from the package index, so that the rest of the library
+ * keeps working in browsers and edge runtimes.
+ *
+ * @template V - The type of the cached values.
+ * @param {FileCacheStorageOptions} options - The directory and namespace of the cache file.
+ * @returns {AsyncCacheStorage<V>} A storage backed by the cache file.
+ * @throws {RangeError} If `writeDelay` is negative or not a finite number.
+ *
+ * @example
+ * import { asyncCache } from './async-data';
+ * import { createFileCacheStorage } from './file-cache-storage';
+ *
+ * const getReport = asyncCache(buildReport, {
+ *   ttl: { minutes: 24 * 60 },
+ *   storage: createFileCacheStorage({ directory: '.cache', namespace: 'reports' }),
+ * });
+ */
+export function createFileCacheStorage<V>({
+  directory,
+  namespace,
+  writeDelay = 50,
+}: FileCacheStorageOptions): AsyncCacheStorage<V> {
+  if (!Number.isFinite(writeDelay) || writeDelay < 0) {
+    throw new RangeError("writeDelay must be a non-negative number.");
+  }
+
+  const filePath = join(directory, `${encodeURIComponent(namespace)}.json`);
+  const lockPath = `${filePath}.lock`;
+  let entries: StoredEntries<V> | undefined;
+  let fileVersion: string | undefined;
+  let pending: PendingChanges<V> = { entries: new Map(), cleared: false };
+  let scheduledWrite: Promise<void> | undefined;
+  let lastWrite: Promise<void> = Promise.resolve();
+
+  const readCacheFile = async (): Promise<{
+    fileEntries: Record<string, AsyncCacheStorageEntry<V>>;
+    version: string | undefined;
+  }> => {
+    let handle;
+    try {
+      handle = await open(filePath, "r");
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return { fileEntries: {}, version: undefined };
+      }
+      throw error;
+    }
+    try {
+      const version = versionOf(await handle.stat());
+      return {
+        fileEntries: JSON.parse(await handle.readFile("utf8")),
+        version,
+      };
+    } finally {
+      await handle.close();
+    }
+  };
+
+  const currentVersion = async (): Promise<string | undefined> => {
+    try {
+      return versionOf(await stat(filePath));
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Returns the entries of the file with the pending changes applied, reading the file again if it has changed.
+   */
+  const loadEntries = async (): Promise<StoredEntries<V>> => {
+    const version = await currentVersion();
+    if (entries && version === fileVersion) {
+      return entries;
+    }
+    const file = await readCacheFile();
+    entries = applyChanges(file.fileEntries, pending);
+    fileVersion = file.version;
+    return entries;
+  };
+
+  /**
+   * Applies the pending changes to the current content of the file, under the lock shared with other processes.
+   */
+  const writeChanges = async (): Promise<void> => {
+    await mkdir(directory, { recursive: true });
+    const releaseLock = await acquireLock(lockPath);
+    const batch = pending;
+    try {
+      const { fileEntries } = await readCacheFile();
+      pending = { entries: new Map(), cleared: false };
+      const written = applyChanges(fileEntries, batch);
+      const temporaryPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(
+        temporaryPath,
+        JSON.stringify(Object.fromEntries(written)),
+        "utf8"
+      );
+      await rename(temporaryPath, filePath);
+      fileVersion = await currentVersion();
+      entries = applyChanges(Object.fromEntries(written), pending);
+    } catch (error) {
+      // Keeps the changes of the failed batch for the next one, unless they were overridden since.
+      if (batch !== pending && !pending.cleared) {
+        pending = {
+          entries: new Map([...batch.entries, ...pending.entries]),
+          cleared: batch.cleared,
+        };
+      }
+      throw error;
+    } finally {
+      await releaseLock();
+    }
+  };
+
+  /**
+   * Schedules a write of the pending changes, shared by every change made until it starts.
+   * Writes never overlap: a write scheduled while another one runs waits for it.
+   */
+  const scheduleWrite = (): Promise<void> => {
+    if (!scheduledWrite) {
+      const previousWrite = lastWrite;
+      scheduledWrite = new Promise((resolve) => setTimeout(resolve, writeDelay))
+        .then(() => previousWrite)
+        .then(() => {
+          scheduledWrite = undefined;
+          return writeChanges();
+        });
+      lastWrite = scheduledWrite.catch(() => undefined);
+    }
+    return scheduledWrite;
+  };
+
+  const clone = (entry: AsyncCacheStorageEntry<V>): AsyncCacheStorageEntry<V> =>
+    JSON.parse(JSON.stringify(entry));
+
+  return {
+    get: async (key) => {
+      const entry = (await loadEntries()).get(key);
+      return entry === undefined ? undefined : clone(entry);
+    },
+    set: async (key, entry) => {
+      const serialized = clone(entry);
+      pending.entries.set(key, serialized);
+      entries?.set(key, serialized);
+      return scheduleWrite();
+    },
+    delete: async (key) => {
+      pending.entries.set(key, undefined);
+      entries?.delete(key);
+      return scheduleWrite();
+    },
+    clear: async () => {
+      pending = { entries: new Map(), cleared: true };
+      entries?.clear();
+      return scheduleWrite();
+    },
+    keys: async () => Array.from((await loadEntries()).keys()),
+  };
+}
@@ -1,18 +1,25 @@
+import { Clock, systemClock } from "./clock";
+import { addMonths, dateRange, DateOptions, toISODate } from "./date";
+
+type UnaryFunction = (arg: any) => any;
+
 /**
  * Compose functions from right to left.
  *
  * A function that takes any number of functions as arguments and composes them from right to left.
  * That is, given functions f, g, and h, and value x, it returns f(g(h(x))).
- * Remember that the functions must have the same input and output types.
+ * The output type of each function must match the input type of the function on its left,
+ * and the composed function takes the input of the rightmost function and returns the output of the leftmost one.
+ * A mismatched step is reported as a compile error on that argument. Up to 10 functions are supported.
  *
  * @param funcs - Functions to compose.
  * @returns A composed function that represents the composition of the input functions.
  *
  * @example
  * // Example of using the compose function with simple mathematical operations
- * const addOne = (x) => x + 1;
- * const double = (x) => x * 2;
- * const subtractThree = (x) => x - 3;
+ * const addOne = (x: number) => x + 1;
+ * const double = (x: number) => x * 2;
+ * const subtractThree = (x: number) => x - 3;
  *
  * // Creating a composed function that subtracts 3 from the input, doubles the result, and then adds 1
  * const processNumber = compose(addOne, double, subtractThree);
@@ -21,35 +28,110 @@
  *
  * @example
  * // Example of using the compose function for more complex data transformations
- * const wrapInArray = (x) => [x];
- * const appendToArray = (arr) => [...arr, "appended item"];
- * const convertArrayToString = (arr) => arr.join(", ");
+ * const wrapInArray = (x: string) => [x];
+ * const appendToArray = (arr: string[]) => [...arr, "appended item"];
+ * const convertArrayToString = (arr: string[]) => arr.join(", ");
  *
- * // Creating a composed function that takes a value, converts an array to a string, appends an item to the array, and then wraps the value in an array
- * const processValue = compose(wrapInArray, appendToArray, convertArrayToString);
+ * // Creating a composed function that wraps the value in an array, appends an item to the array, and then converts the array to a string
+ * const processValue = compose(convertArrayToString, appendToArray, wrapInArray);
  *
  * console.log(processValue("initial item")); // Output: "initial item, appended item"
  */
-export const compose =
-  <T>(...funcs: ((arg: T) => T)[]): ((arg: T) => T) =>
-  (arg: T): T =>
-    funcs.reduceRight((acc, func) => func(acc), arg);
+export function compose(): <T>(arg: T) => T;
+export function compose<A, B>(ab: (arg: A) => B): (arg: A) => B;
+export function compose<A, B, C>(
+  bc: (arg: B) => C,
+  ab: (arg: A) => B
+): (arg: A) => C;
+export function compose<A, B, C, D>(
+  cd: (arg: C) => D,
+  bc: (arg: B) => C,
+  ab: (arg: A) => B
+): (arg: A) => D;
+export function compose<A, B, C, D, E>(
+  de: (arg: D) => E,
+  cd: (arg: C) => D,
+  bc: (arg: B) => C,
+  ab: (arg: A) => B
+): (arg: A) => E;
+export function compose<A, B, C, D, E, F>(
+  ef: (arg: E) => F,
+  de: (arg: D) => E,
+  cd: (arg: C) => D,
+  bc: (arg: B) => C,
+  ab: (arg: A) => B
+): (arg: A) => F;
+export function compose<A, B, C, D, E, F, G>(
+  fg: (arg: F) => G,
+  ef: (arg: E) => F,
+  de: (arg: D) => E,
+  cd: (arg: C) => D,
+  bc: (arg: B) => C,
+  ab: (arg: A) => B
+): (arg: A) => G;
+export function compose<A, B, C, D, E, F, G, H>(
+  gh: (arg: G) => H,
+  fg: (arg: F) => G,
+  ef: (arg: E) => F,
+  de: (arg: D) => E,
+  cd: (arg: C) => D,
+  bc: (arg: B) => C,
+  ab: (arg: A) => B
+): (arg: A) => H;
+export function compose<A, B, C, D, E, F, G, H, I>(
+  hi: (arg: H) => I,
+  gh: (arg: G) => H,
+  fg: (arg: F) => G,
+  ef: (arg: E) => F,
+  de: (arg: D) => E,
+  cd: (arg: C) => D,
+  bc: (arg: B) => C,
+  ab: (arg: A) => B
+): (arg: A) => I;
+export function compose<A, B, C, D, E, F, G, H, I, J>(
+  ij: (arg: I) => J,
+  hi: (arg: H) => I,
+  gh: (arg: G) => H,
+  fg: (arg: F) => G,
+  ef: (arg: E) => F,
+  de: (arg: D) => E,
+  cd: (arg: C) => D,
+  bc: (arg: B) => C,
+  ab: (arg: A) => B
+): (arg: A) => J;
+export function compose<A, B, C, D, E, F, G, H, I, J, K>(
+  jk: (arg: J) => K,
+  ij: (arg: I) => J,
+  hi: (arg: H) => I,
+  gh: (arg: G) => H,
+  fg: (arg: F) => G,
+  ef: (arg: E) => F,
+  de: (arg: D) => E,
+  cd: (arg: C) => D,
+  bc: (arg: B) => C,
+  ab: (arg: A) => B
+): (arg: A) => K;
+export function compose(...funcs: UnaryFunction[]): UnaryFunction {
+  return (arg) => funcs.reduceRight((acc, func) => func(acc), arg);
+}
 
 /**
  * Pipe functions from left to right.
  *
  * A function that takes any number of functions as arguments and pipes them from left to right.
  * That is, given functions f, g, and h, and value x, it returns h(g(f(x))).
- * Remember that the functions must have the same input and output types.
+ * The output type of each function flows into the input of the next one,
+ * and the piped function takes the input of the first function and returns the output of the last one.
+ * A mismatched step is reported as a compile error on that argument. Up to 10 functions are supported.
  *
  * @param funcs - Functions to pipe.
  * @returns A piped function that represents the composition of the input functions.
  *
  * @example
  * // Example of using the pipe function with simple mathematical operations
- * const addOne = (x) => x + 1;
- * const double = (x) => x * 2;
- * const subtractThree = (x) => x - 3;
+ * const addOne = (x: number) => x + 1;
+ * const double = (x: number) => x * 2;
+ * const subtractThree = (x: number) => x - 3;
  *
  * // Creating a piped function that adds 1 to the input, doubles the result, and then subtracts 3
  * const processNumber = pipe(addOne, double, subtractThree);
@@ -58,69 +140,271 @@ export const compose =
  *
  * @example
  * // Example of using the pipe function for more complex data transformations
- * const wrapInArray = (x) => [x];
- * const appendToArray = (arr) => [...arr, "new item"];
- * const convertArrayToString = (arr) => arr.join(", ");
+ * const wrapInArray = (x: string) => [x];
+ * const appendToArray = (arr: string[]) => [...arr, "new item"];
+ * const convertArrayToString = (arr: string[]) => arr.join(", ");
  *
  * // Creating a piped function that takes a value, wraps it in an array, appends a new item, and then converts the array to a string
  * const processValue = pipe(wrapInArray, appendToArray, convertArrayToString);
  *
  * console.log(processValue("initial item")); // Output: "initial item, new item"
  */
-export const pipe =
-  <T>(...funcs: ((arg: T) => T)[]): ((arg: T) => T) =>
-  (arg: T): T =>
-    funcs.reduce((acc, func) => func(acc), arg);
+export function pipe(): <T>(arg: T) => T;
+export function pipe<A, B>(ab: (arg: A) => B): (arg: A) => B;
+export function pipe<A, B, C>(
+  ab: (arg: A) => B,
+  bc: (arg: B) => C
+): (arg: A) => C;
+export function pipe<A, B, C, D>(
+  ab: (arg: A) => B,
+  bc: (arg: B) => C,
+  cd: (arg: C) => D
+): (arg: A) => D;
+export function pipe<A, B, C, D, E>(
+  ab: (arg: A) => B,
+  bc: (arg: B) => C,
+  cd: (arg: C) => D,
+  de: (arg: D) => E
+): (arg: A) => E;
+export function pipe<A, B, C, D, E, F>(
+  ab: (arg: A) => B,
+  bc: (arg: B) => C,
+  cd: (arg: C) => D,
+  de: (arg: D) => E,
+  ef: (arg: E) => F
+): (arg: A) => F;
+export function pipe<A, B, C, D, E, F, G>(
+  ab: (arg: A) => B,
+  bc: (arg: B) => C,
+  cd: (arg: C) => D,
+  de: (arg: D) => E,
+  ef: (arg: E) => F,
+  fg: (arg: F) => G
+): (arg: A) => G;
+export function pipe<A, B, C, D, E, F, G, H>(
+  ab: (arg: A) => B,
+  bc: (arg: B) => C,
+  cd: (arg: C) => D,
+  de: (arg: D) => E,
+  ef: (arg: E) => F,
+  fg: (arg: F) => G,
+  gh: (arg: G) => H
+): (arg: A) => H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  ab: (arg: A) => B,
+  bc: (arg: B) => C,
+  cd: (arg: C) => D,
+  de: (arg: D) => E,
+  ef: (arg: E) => F,
+  fg: (arg: F) => G,
+  gh: (arg: G) => H,
+  hi: (arg: H) => I
+): (arg: A) => I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+  ab: (arg: A) => B,
+  bc: (arg: B) => C,
+  cd: (arg: C) => D,
+  de: (arg: D) => E,
+  ef: (arg: E) => F,
+  fg: (arg: F) => G,
+  gh: (arg: G) => H,
+  hi: (arg: H) => I,
+  ij: (arg: I) => J
+): (arg: A) => J;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+  ab: (arg: A) => B,
+  bc: (arg: B) => C,
+  cd: (arg: C) => D,
+  de: (arg: D) => E,
+  ef: (arg: E) => F,
+  fg: (arg: F) => G,
+  gh: (arg: G) => H,
+  hi: (arg: H) => I,
+  ij: (arg: I) => J,
+  jk: (arg: J) => K
+): (arg: A) => K;
+export function pipe(...funcs: UnaryFunction[]): UnaryFunction {
+  return (arg) => funcs.reduce((acc, func) => func(acc), arg);
+}
+
+/**
+ * Options accepted by the functions built with `pipeAsync` and `composeAsync`.
+ *
+ * - `signal`: checked before each step. Once aborted, the pipeline rejects with the signal's reason
+ *   instead of running the remaining steps.
+ */
+export type PipelineOptions = { signal?: AbortSignal };
+
+/**
+ * Error thrown by the functions built with `pipeAsync` and `composeAsync` when one of their steps fails.
+ * `stepIndex` is the position of the failing function in the argument list, `stepName` its name (if any),
+ * `input` the value it was called with and `cause` the original error.
+ */
+export class PipelineError extends Error {
+  constructor(
+    public readonly stepIndex: number,
+    public readonly stepName: string | undefined,
+    public readonly input: unknown,
+    public readonly cause: unknown
+  ) {
+    super(
+      `Pipeline step ${stepIndex}${stepName ? ` (${stepName})` : ""} failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = "PipelineError";
+  }
+}
+
+/**
+ * Runs the steps in the given order, awaiting each result and wrapping failures in a `PipelineError`.
+ */
+async function runPipeline(
+  steps: { func: UnaryFunction; index: number }[],
+  initialArg: unknown,
+  { signal }: PipelineOptions = {}
+): Promise<unknown> {
+  let result = initialArg;
+  for (const { func, index } of steps) {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    try {
+      result = await func(result);
+    } catch (error) {
+      throw new PipelineError(index, func.name || undefined, result, error);
+    }
+  }
+  return result;
+}
 
 /**
  * Composes asynchronous functions from right to left.
- * Each function should return a Promise that resolves to the type expected by the next function.
- * The final result is wrapped in a Promise.
+ * Each function may return a value or a Promise of the type expected by the function on its left.
+ * The final result is wrapped in a Promise. Up to 10 functions are supported.
+ *
+ * The composed function accepts `PipelineOptions` as a second argument, and a failing step rejects with a `PipelineError`.
  *
- * @param funcs - An array of asynchronous functions to compose.
+ * @param funcs - An array of synchronous or asynchronous functions to compose.
  * @returns A function that, when called with an initial argument, returns a Promise resolving to the result of the composed functions.
  *
  * @example
  * // Example of composing asynchronous functions
- * const double = (x) => Promise.resolve(x * 2);
- * const increment = (x) => Promise.resolve(x + 1);
+ * const double = (x: number) => Promise.resolve(x * 2);
+ * const increment = (x: number) => x + 1;
  * const doubleThenIncrement = composeAsync(increment, double);
  * doubleThenIncrement(3).then(console.log); // Output: 7, since it doubles to 6 then increments to 7
  *
  * @example
  * // Example showing the composability of asynchronous functions handling more complex data
- * const fetchUserData = () => Promise.resolve({ userId: 1, name: 'John' });
- * const extractUserName = (user) => Promise.resolve(user.name);
- * const greetUser = (userName) => Promise.resolve(`Hello, ${userName}!`);
+ * const fetchUserData = (userId: number) => Promise.resolve({ userId, name: 'John' });
+ * const extractUserName = (user: { name: string }) => user.name;
+ * const greetUser = (userName: string) => Promise.resolve(`Hello, ${userName}!`);
  * const fetchAndGreetUser = composeAsync(greetUser, extractUserName, fetchUserData);
- * fetchAndGreetUser().then(console.log); // Output: "Hello, John!"
+ * fetchAndGreetUser(1).then(console.log); // Output: "Hello, John!"
  */
-export const composeAsync = <T>(
-  ...funcs: ((arg: T) => Promise<T>)[]
-): ((arg: T) => Promise<T>) => {
-  return async (initialArg: T): Promise<T> => {
-    const result = { value: initialArg };
-    for (const func of funcs.reverse()) {
-      result.value = await func(result.value);
-    }
-    return result.value;
-  };
-};
+export function composeAsync(): <T>(
+  arg: T,
+  options?: PipelineOptions
+) => Promise<T>;
+export function composeAsync<A, B>(
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<B>;
+export function composeAsync<A, B, C>(
+  bc: (arg: B) => C | Promise<C>,
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<C>;
+export function composeAsync<A, B, C, D>(
+  cd: (arg: C) => D | Promise<D>,
+  bc: (arg: B) => C | Promise<C>,
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<D>;
+export function composeAsync<A, B, C, D, E>(
+  de: (arg: D) => E | Promise<E>,
+  cd: (arg: C) => D | Promise<D>,
+  bc: (arg: B) => C | Promise<C>,
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<E>;
+export function composeAsync<A, B, C, D, E, F>(
+  ef: (arg: E) => F | Promise<F>,
+  de: (arg: D) => E | Promise<E>,
+  cd: (arg: C) => D | Promise<D>,
+  bc: (arg: B) => C | Promise<C>,
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<F>;
+export function composeAsync<A, B, C, D, E, F, G>(
+  fg: (arg: F) => G | Promise<G>,
+  ef: (arg: E) => F | Promise<F>,
+  de: (arg: D) => E | Promise<E>,
+  cd: (arg: C) => D | Promise<D>,
+  bc: (arg: B) => C | Promise<C>,
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<G>;
+export function composeAsync<A, B, C, D, E, F, G, H>(
+  gh: (arg: G) => H | Promise<H>,
+  fg: (arg: F) => G | Promise<G>,
+  ef: (arg: E) => F | Promise<F>,
+  de: (arg: D) => E | Promise<E>,
+  cd: (arg: C) => D | Promise<D>,
+  bc: (arg: B) => C | Promise<C>,
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<H>;
+export function composeAsync<A, B, C, D, E, F, G, H, I>(
+  hi: (arg: H) => I | Promise<I>,
+  gh: (arg: G) => H | Promise<H>,
+  fg: (arg: F) => G | Promise<G>,
+  ef: (arg: E) => F | Promise<F>,
+  de: (arg: D) => E | Promise<E>,
+  cd: (arg: C) => D | Promise<D>,
+  bc: (arg: B) => C | Promise<C>,
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<I>;
+export function composeAsync<A, B, C, D, E, F, G, H, I, J>(
+  ij: (arg: I) => J | Promise<J>,
+  hi: (arg: H) => I | Promise<I>,
+  gh: (arg: G) => H | Promise<H>,
+  fg: (arg: F) => G | Promise<G>,
+  ef: (arg: E) => F | Promise<F>,
+  de: (arg: D) => E | Promise<E>,
+  cd: (arg: C) => D | Promise<D>,
+  bc: (arg: B) => C | Promise<C>,
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<J>;
+export function composeAsync<A, B, C, D, E, F, G, H, I, J, K>(
+  jk: (arg: J) => K | Promise<K>,
+  ij: (arg: I) => J | Promise<J>,
+  hi: (arg: H) => I | Promise<I>,
+  gh: (arg: G) => H | Promise<H>,
+  fg: (arg: F) => G | Promise<G>,
+  ef: (arg: E) => F | Promise<F>,
+  de: (arg: D) => E | Promise<E>,
+  cd: (arg: C) => D | Promise<D>,
+  bc: (arg: B) => C | Promise<C>,
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<K>;
+export function composeAsync(
+  ...funcs: UnaryFunction[]
+): (arg: unknown, options?: PipelineOptions) => Promise<unknown> {
+  const steps = funcs.map((func, index) => ({ func, index })).reverse();
+  return (initialArg, options) => runPipeline(steps, initialArg, options);
+}
 
 /**
  * Pipes asynchronous functions from left to right.
- * Each function should return a Promise that resolves to the type expected by the next function.
- * The final result is wrapped in a Promise.
+ * Each function may return a value or a Promise of the type expected by the next function.
+ * The final result is wrapped in a Promise. Up to 10 functions are supported.
+ *
+ * The piped function accepts `PipelineOptions` as a second argument, and a failing step rejects with a `PipelineError`.
  *
- * @param funcs - An array of asynchronous functions to pipe.
+ * @param funcs - An array of synchronous or asynchronous functions to pipe.
  * @returns A function that, when called with an initial argument, returns a Promise resolving to the result of the piped functions.
  *
  * @example
  * // Asynchronous function that increments its input
- * const incrementAsync = async (x) => x + 1;
+ * const incrementAsync = async (x: number) => x + 1;
  *
  * // Asynchronous function that doubles its input
- * const doubleAsync = async (x) => x * 2;
+ * const doubleAsync = async (x: number) => x * 2;
  *
  * // Piping the asynchronous functions
  * const incrementThenDouble = pipeAsync(incrementAsync, doubleAsync);
@@ -129,28 +413,203 @@ export const composeAsync = <T>(
  * incrementThenDouble(3).then(console.log); // Output: 8
  *
  * @example
- * // Asynchronous function that converts number to string
- * const toStringAsync = async (x) => `Number: ${x}`;
+ * // Synchronous function that converts number to string
+ * const toString = (x: number) => `Number: ${x}`;
  *
- * // Piping functions: increment, double, then convert to string
- * const processNumber = pipeAsync(incrementAsync, doubleAsync, toStringAsync);
+ * // Piping functions: increment, double, then convert to string, stopping early if the request is aborted
+ * const processNumber = pipeAsync(incrementAsync, doubleAsync, toString);
  *
  * // Using the piped function
- * processNumber(3).then(console.log); // Output: "Number: 8"
+ * processNumber(3, { signal: controller.signal }).then(console.log); // Output: "Number: 8"
+ *
+ * @example
+ * // Finding out which step failed
+ * const parse = (text: string) => JSON.parse(text);
+ * pipeAsync(parse, doubleAsync)("{").catch((error: PipelineError) => {
+ *   console.log(error.stepIndex, error.stepName, error.input); // Output: 0 "parse" "{"
+ * });
  */
-export const pipeAsync = <T>(
-  ...funcs: ((arg: T) => Promise<T>)[]
-): ((arg: T) => Promise<T>) => {
-  return async (initialArg: T): Promise<T> => {
-    let result = initialArg;
-    for (const func of funcs) {
-      result = await func(result);
-    }
-    return result;
-  };
-};
+export function pipeAsync(): <T>(
+  arg: T,
+  options?: PipelineOptions
+) => Promise<T>;
+export function pipeAsync<A, B>(
+  ab: (arg: A) => B | Promise<B>
+): (arg: A, options?: PipelineOptions) => Promise<B>;
+export function pipeAsync<A, B, C>(
+  ab: (arg: A) => B | Promise<B>,
+  bc: (arg: B) => C | Promise<C>
+): (arg: A, options?: PipelineOptions) => Promise<C>;
+export function pipeAsync<A, B, C, D>(
+  ab: (arg: A) => B | Promise<B>,
+  bc: (arg: B) => C | Promise<C>,
+  cd: (arg: C) => D | Promise<D>
+): (arg: A, options?: PipelineOptions) => Promise<D>;
+export function pipeAsync<A, B, C, D, E>(
+  ab: (arg: A) => B | Promise<B>,
+  bc: (arg: B) => C | Promise<C>,
+  cd: (arg: C) => D | Promise<D>,
+  de: (arg: D) => E | Promise<E>
+): (arg: A, options?: PipelineOptions) => Promise<E>;
+export function pipeAsync<A, B, C, D, E, F>(
+  ab: (arg: A) => B | Promise<B>,
+  bc: (arg: B) => C | Promise<C>,
+  cd: (arg: C) => D | Promise<D>,
+  de: (arg: D) => E | Promise<E>,
+  ef: (arg: E) => F | Promise<F>
+): (arg: A, options?: PipelineOptions) => Promise<F>;
+export function pipeAsync<A, B, C, D, E, F, G>(
+  ab: (arg: A) => B | Promise<B>,
+  bc: (arg: B) => C | Promise<C>,
+  cd: (arg: C) => D | Promise<D>,
+  de: (arg: D) => E | Promise<E>,
+  ef: (arg: E) => F | Promise<F>,
+  fg: (arg: F) => G | Promise<G>
+): (arg: A, options?: PipelineOptions) => Promise<G>;
+export function pipeAsync<A, B, C, D, E, F, G, H>(
+  ab: (arg: A) => B | Promise<B>,
+  bc: (arg: B) => C | Promise<C>,
+  cd: (arg: C) => D | Promise<D>,
+  de: (arg: D) => E | Promise<E>,
+  ef: (arg: E) => F | Promise<F>,
+  fg: (arg: F) => G | Promise<G>,
+  gh: (arg: G) => H | Promise<H>
+): (arg: A, options?: PipelineOptions) => Promise<H>;
+export function pipeAsync<A, B, C, D, E, F, G, H, I>(
+  ab: (arg: A) => B | Promise<B>,
+  bc: (arg: B) => C | Promise<C>,
+  cd: (arg: C) => D | Promise<D>,
+  de: (arg: D) => E | Promise<E>,
+  ef: (arg: E) => F | Promise<F>,
+  fg: (arg: F) => G | Promise<G>,
+  gh: (arg: G) => H | Promise<H>,
+  hi: (arg: H) => I | Promise<I>
+): (arg: A, options?: PipelineOptions) => Promise<I>;
+export function pipeAsync<A, B, C, D, E, F, G, H, I, J>(
+  ab: (arg: A) => B | Promise<B>,
+  bc: (arg: B) => C | Promise<C>,
+  cd: (arg: C) => D | Promise<D>,
+  de: (arg: D) => E | Promise<E>,
+  ef: (arg: E) => F | Promise<F>,
+  fg: (arg: F) => G | Promise<G>,
+  gh: (arg: G) => H | Promise<H>,
+  hi: (arg: H) => I | Promise<I>,
+  ij: (arg: I) => J | Promise<J>
+): (arg: A, options?: PipelineOptions) => Promise<J>;
+export function pipeAsync<A, B, C, D, E, F, G, H, I, J, K>(
+  ab: (arg: A) => B | Promise<B>,
+  bc: (arg: B) => C | Promise<C>,
+  cd: (arg: C) => D | Promise<D>,
+  de: (arg: D) => E | Promise<E>,
+  ef: (arg: E) => F | Promise<F>,
+  fg: (arg: F) => G | Promise<G>,
+  gh: (arg: G) => H | Promise<H>,
+  hi: (arg: H) => I | Promise<I>,
+  ij: (arg: I) => J | Promise<J>,
+  jk: (arg: J) => K | Promise<K>
+): (arg: A, options?: PipelineOptions) => Promise<K>;
+export function pipeAsync(
+  ...funcs: UnaryFunction[]
+): (arg: unknown, options?: PipelineOptions) => Promise<unknown> {
+  const steps = funcs.map((func, index) => ({ func, index }));
+  return (initialArg, options) => runPipeline(steps, initialArg, options);
+}
 
 type CustomFunction = (...args: any[]) => any;
+
+/**
+ * Placeholder token for `curry`: skips an argument so that it can be provided by a later call.
+ *
+ * @example
+ * const subtract = curry((a: number, b: number) => a - b);
+ * const minusTwo = subtract(_, 2);
+ * console.log(minusTwo(5)); // Output: 3
+ */
+export const _: unique symbol = Symbol("curry.placeholder");
+
+export type Placeholder = typeof _;
+
+/**
+ * Keeps the required parameters of a parameter list, which is what `fn.length` counts.
+ */
+type RequiredArgs<P extends unknown[]> = P extends [infer Head, ...infer Tail]
+  ? [Head, ...RequiredArgs<Tail>]
+  : [];
+
+/**
+ * Keeps the first `N` parameters of a parameter list, treating optional and rest parameters as required.
+ */
+type TakeArgs<
+  P extends unknown[],
+  N extends number,
+  Taken extends unknown[] = []
+> = Taken["length"] extends N
+  ? Taken
+  : P extends [infer Head, ...infer Tail]
+  ? TakeArgs<Tail, N, [...Taken, Head]>
+  : P extends [(infer Head)?, ...infer Tail]
+  ? TakeArgs<Tail, N, [...Taken, Exclude<Head, undefined>]>
+  : Taken;
+
+/**
+ * The arguments accepted by one call of a curried function: a prefix of the remaining parameters,
+ * where any of them may be skipped with the placeholder.
+ */
+type CurryArgs<P extends unknown[]> = P extends [infer Head, ...infer Tail]
+  ? [] | [Head | Placeholder, ...CurryArgs<Tail>]
+  : [];
+
+/**
+ * The parameters still missing after a call: the skipped ones followed by the ones not provided yet.
+ */
+type RemainingArgs<P extends unknown[], A extends unknown[]> = A extends [
+  infer ArgHead,
+  ...infer ArgTail
+]
+  ? P extends [infer Head, ...infer Tail]
+    ? ArgHead extends Placeholder
+      ? [Head, ...RemainingArgs<Tail, ArgTail>]
+      : RemainingArgs<Tail, ArgTail>
+    : []
+  : P;
+
+/**
+ * The result of a call of a curried function: the result of the function once every parameter is provided,
+ * and a curried function expecting the missing parameters otherwise.
+ */
+type CurryResult<P extends unknown[], A extends unknown[], R> = RemainingArgs<
+  P,
+  A
+> extends []
+  ? R
+  : Curried<RemainingArgs<P, A>, R>;
+
+export type Curried<P extends unknown[], R> = <A extends CurryArgs<P>>(
+  ...args: A
+) => CurryResult<P, A, R>;
+
+/**
+ * Builds the curried function collecting `arity` arguments before calling `fn`.
+ */
+function createCurried(fn: CustomFunction, arity: number) {
+  const collect =
+    (collected: unknown[]) =>
+    (...args: unknown[]): unknown => {
+      const pending = [...args];
+      const merged = collected.map((value) =>
+        value === _ && pending.length > 0 ? pending.shift() : value
+      );
+      merged.push(...pending);
+
+      const isComplete =
+        merged.length >= arity &&
+        merged.slice(0, arity).every((value) => value !== _);
+      return isComplete ? fn(...merged) : collect(merged);
+    };
+
+  return collect([]);
+}
+
 /**
  * Transforms a function that expects multiple arguments into a curried function.
  * A curried function is a function that can be called with fewer arguments than
@@ -158,13 +617,18 @@ type CustomFunction = (...args: any[]) => any;
  * This process continues until all arguments are provided, at which point
  * the original function is called and its result returned.
  *
+ * The parameter and return types are inferred at each call, and arguments can be skipped with the `_` placeholder.
+ * The number of expected arguments is `fn.length`, which does not count rest parameters or parameters
+ * with a default value; use `curryN` to give it explicitly.
+ *
  * @param {Function} fn - The function to curry.
- * @param {...any} args - The arguments to pass to the function.
+ * @param {...any} args - The arguments to pass to the function. When they complete its parameters,
+ * `fn` is called right away and its result returned.
  * @returns {Function} A curried version of the provided function.
  *
  * @example
  * // Example of a simple function to be curried
- * function add(a, b, c) {
+ * function add(a: number, b: number, c: number) {
  *   return a + b + c;
  * }
  *
@@ -183,9 +647,104 @@ type CustomFunction = (...args: any[]) => any;
  * const addToOneAndTwo = addToOne(2);
  *
  * console.log(addToOneAndTwo(3)); // Output: 6
+ *
+ * @example
+ * // Skipping arguments with the placeholder
+ * console.log(curriedAdd(_, 2)(1)(3)); // Output: 6
+ *
+ * @example
+ * // Binding leading arguments while currying
+ * const addToTen = curry(add, 4, 6);
+ * console.log(addToTen(1)); // Output: 11
+ */
+export function curry<F extends CustomFunction>(
+  fn: F
+): Curried<RequiredArgs<Parameters<F>>, ReturnType<F>>;
+export function curry<
+  F extends CustomFunction,
+  A extends CurryArgs<RequiredArgs<Parameters<F>>>
+>(
+  fn: F,
+  ...args: A
+): CurryResult<RequiredArgs<Parameters<F>>, A, ReturnType<F>>;
+export function curry(fn: CustomFunction, ...args: unknown[]) {
+  return createCurried(fn, fn.length)(...args);
+}
+
+/**
+ * Curries a function like `curry`, collecting a given number of arguments before calling it.
+ * This is needed for functions whose `fn.length` does not count all the expected arguments,
+ * such as functions with rest parameters or parameters with a default value.
+ *
+ * @param {number} arity - The number of arguments to collect before calling `fn`.
+ * @param {Function} fn - The function to curry.
+ * @returns {Function} A curried version of the provided function.
+ *
+ * @example
+ * const sumAll = (...values: number[]) => values.reduce((total, value) => total + value, 0);
+ * console.log(curryN(3, sumAll)(1)(2)(3)); // Output: 6
  */
-export function curry(fn: CustomFunction, ...args: any[]): CustomFunction {
-  return fn.length <= args.length ? fn(...args) : curry.bind(null, fn, ...args);
+export function curryN<N extends number, F extends CustomFunction>(
+  arity: N,
+  fn: F
+): Curried<TakeArgs<Parameters<F>, N>, ReturnType<F>> {
+  if (!Number.isInteger(arity) || arity < 0) {
+    throw new RangeError(
+      `The arity of a curried function must be a non-negative integer, got ${arity}.`
+    );
+  }
+  return createCurried(fn, arity) as Curried<
+    TakeArgs<Parameters<F>, N>,
+    ReturnType<F>
+  >;
+}
+
+/**
+ * Creates a function that calls `fn` with the given arguments followed by the arguments it receives.
+ *
+ * @param {Function} fn - The function to partially apply.
+ * @param {...any} args - The leading arguments to bind.
+ * @returns {Function} A function expecting the remaining parameters of `fn`.
+ *
+ * @example
+ * const greet = (greeting: string, name: string) => `${greeting}, ${name}!`;
+ * const sayHello = partial(greet, 'Hello');
+ * console.log(sayHello('John')); // Output: "Hello, John!"
+ */
+export function partial<A extends unknown[], P extends unknown[], R>(
+  fn: (...args: [...A, ...P]) => R,
+  ...args: A
+): (...rest: P) => R {
+  return (...rest) => fn(...args, ...rest);
+}
+
+/**
+ * The parameters of a parameter list that come before the trailing arguments `A`.
+ */
+type LeadingArgs<P extends unknown[], A extends unknown[]> = P extends [
+  ...infer Leading,
+  ...A
+]
+  ? Leading
+  : never;
+
+/**
+ * Creates a function that calls `fn` with the arguments it receives followed by the given arguments.
+ *
+ * @param {Function} fn - The function to partially apply.
+ * @param {...any} args - The trailing arguments to bind.
+ * @returns {Function} A function expecting the leading parameters of `fn`.
+ *
+ * @example
+ * const greet = (greeting: string, name: string) => `${greeting}, ${name}!`;
+ * const greetJohn = partialRight(greet, 'John');
+ * console.log(greetJohn('Hi')); // Output: "Hi, John!"
+ */
+export function partialRight<F extends CustomFunction, A extends unknown[]>(
+  fn: F,
+  ...args: A
+): (...rest: LeadingArgs<Parameters<F>, A>) => ReturnType<F> {
+  return (...rest) => fn(...rest, ...args);
 }
 
 /**
@@ -215,31 +774,403 @@ export function once<T extends (...args: any[]) => any>(
   };
 }
 
+/**
+ * Error rejecting the pending calls of a rate limited, debounced or throttled function when it is cancelled
+ * with the `rejectOnCancel` option.
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super("The call was cancelled before being executed.");
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * A function wrapped by `rateLimit`. `pending` returns the number of queued calls and `cancel` drops them:
+ * they resolve with `undefined`, or reject with a `CancelledError` with the `rejectOnCancel` option.
+ */
+export type RateLimitedFunction<T extends (...args: any[]) => any> = ((
+  ...args: Parameters<T>
+) => Promise<Awaited<ReturnType<T>> | undefined>) & {
+  pending: () => number;
+  cancel: () => void;
+};
+
+/**
+ * Limits how often a function is called using a sliding window: at most `limit` calls start within any
+ * `intervalMs` milliseconds. Excess calls are not dropped but queued, and run in order as soon as the window allows it.
+ *
+ * @template T - The type of the function to limit.
+ * @param {T} func - The function to limit, sync or async.
+ * @param {{ limit: number; intervalMs: number; rejectOnCancel?: boolean; clock?: Clock }} options - The number of calls
+ * allowed per interval, the interval in milliseconds, whether `cancel` rejects the queued calls instead of resolving them
+ * with `undefined`, and the clock to use.
+ * @returns {RateLimitedFunction<T>} A function returning a promise settling with the result of its call.
+ *
+ * @example
+ * // The API allows 10 requests per second
+ * const getUser = rateLimit((id: string) => fetch(`https://api.example.com/users/${id}`), { limit: 10, intervalMs: 1000 });
+ *
+ * // The first 10 requests are sent right away, the next ones as the window moves
+ * const responses = await Promise.all(userIds.map(getUser));
+ */
+export function rateLimit<T extends (...args: any[]) => any>(
+  func: T,
+  options: {
+    limit: number;
+    intervalMs: number;
+    rejectOnCancel?: boolean;
+    clock?: Clock;
+  }
+): RateLimitedFunction<T> {
+  const {
+    limit,
+    intervalMs,
+    rejectOnCancel = false,
+    clock = systemClock,
+  } = options;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new RangeError(
+      `The limit of a rate limited function must be a positive integer, got ${limit}.`
+    );
+  }
+  if (!(intervalMs > 0)) {
+    throw new RangeError(
+      `The interval of a rate limited function must be a positive number, got ${intervalMs}.`
+    );
+  }
+
+  type QueuedCall = {
+    args: Parameters<T>;
+    resolve: (value: ReturnType<T> | undefined) => void;
+    reject: (reason: unknown) => void;
+  };
+
+  const startTimes: number[] = [];
+  let queue: QueuedCall[] = [];
+  let timer: unknown;
+
+  const drain = (): void => {
+    timer = undefined;
+    while (queue.length > 0) {
+      const now = clock.now();
+      while (startTimes.length > 0 && now - startTimes[0] >= intervalMs) {
+        startTimes.shift();
+      }
+      if (startTimes.length >= limit) {
+        timer = clock.setTimeout(drain, startTimes[0] + intervalMs - now);
+        return;
+      }
+
+      startTimes.push(now);
+      const { args, resolve, reject } = queue.shift()!;
+      try {
+        resolve(func(...args));
+      } catch (error) {
+        reject(error);
+      }
+    }
+  };
+
+  const limitedFunc = (
+    ...args: Parameters<T>
+  ): Promise<Awaited<ReturnType<T>> | undefined> =>
+    new Promise((resolve, reject) => {
+      queue.push({ args, resolve, reject });
+      if (timer === undefined) {
+        drain();
+      }
+    });
+
+  const cancel = (): void => {
+    clock.clearTimeout(timer);
+    timer = undefined;
+    const cancelledCalls = queue;
+    queue = [];
+    cancelledCalls.forEach(({ resolve, reject }) =>
+      rejectOnCancel ? reject(new CancelledError()) : resolve(undefined)
+    );
+  };
+
+  return Object.assign(limitedFunc, {
+    pending: () => queue.length,
+    cancel,
+  });
+}
+
+/**
+ * A function wrapped by `debounce` or `throttle`. Each call returns a promise settling with the result of the
+ * invocation it ends up in. `flush` runs the pending invocation right away and `cancel` drops it: the pending calls
+ * resolve with `undefined`, or reject with a `CancelledError` with the `rejectOnCancel` option.
+ * `flush` also resolves with `undefined` when the function was never invoked.
+ */
+export type DebouncedFunction<T extends (...args: any[]) => any> = ((
+  ...args: Parameters<T>
+) => Promise<Awaited<ReturnType<T>> | undefined>) & {
+  flush: () => Promise<Awaited<ReturnType<T>> | undefined>;
+  cancel: () => void;
+};
+
+/**
+ * Options accepted by `debounce`.
+ *
+ * - `leading`: invokes the function at the start of a burst of calls (default false).
+ * - `trailing`: invokes the function with the latest arguments once the calls stop for `wait` milliseconds (default true).
+ * - `maxWait`: the maximum time in milliseconds the invocation may be delayed while calls keep coming.
+ * - `rejectOnCancel`: rejects the pending calls with a `CancelledError` on `cancel`, instead of resolving them
+ *   with `undefined` (default false).
+ * - `clock`: the clock used to measure the waits.
+ */
+export type DebounceOptions = {
+  leading?: boolean;
+  trailing?: boolean;
+  maxWait?: number;
+  rejectOnCancel?: boolean;
+  clock?: Clock;
+};
+
+/**
+ * Shared implementation of `debounce` and `throttle`, a throttled function being a debounced one whose
+ * invocation is never delayed by more than `wait` milliseconds.
+ */
+function createDebounced<T extends (...args: any[]) => any>(
+  func: T,
+  wait: number,
+  {
+    leading,
+    trailing,
+    maxWait,
+    rejectOnCancel,
+    clock,
+  }: Required<Omit<DebounceOptions, "maxWait">> &
+    Pick<DebounceOptions, "maxWait">
+): DebouncedFunction<T> {
+  type Result = Awaited<ReturnType<T>> | undefined;
+  type PendingCall = {
+    resolve: (value: Result | Promise<Result>) => void;
+    reject: (reason: unknown) => void;
+  };
+
+  let lastArgs: Parameters<T> | undefined;
+  let lastCallTime: number | undefined;
+  let lastInvokeTime = 0;
+  let lastResult: Promise<Result> = Promise.resolve(undefined);
+  let pendingCalls: PendingCall[] = [];
+  let timer: unknown;
+
+  const settlePendingCalls = (result: Promise<Result>): void => {
+    const calls = pendingCalls;
+    pendingCalls = [];
+    calls.forEach(({ resolve }) => resolve(result));
+  };
+
+  const invoke = (time: number): Promise<Result> => {
+    const args = lastArgs!;
+    lastArgs = undefined;
+    lastInvokeTime = time;
+    lastResult = new Promise<Result>((resolve) => resolve(func(...args)));
+    settlePendingCalls(lastResult);
+    return lastResult;
+  };
+
+  const shouldInvoke = (time: number): boolean => {
+    if (lastCallTime === undefined) {
+      return true;
+    }
+    const timeSinceLastCall = time - lastCallTime;
+    return (
+      timeSinceLastCall >= wait ||
+      timeSinceLastCall < 0 ||
+      (maxWait !== undefined && time - lastInvokeTime >= maxWait)
+    );
+  };
+
+  const remainingWait = (time: number): number => {
+    const timeWaiting = wait - (time - lastCallTime!);
+    return maxWait === undefined
+      ? timeWaiting
+      : Math.min(timeWaiting, maxWait - (time - lastInvokeTime));
+  };
+
+  const trailingEdge = (time: number): Promise<Result> => {
+    timer = undefined;
+    if (trailing && lastArgs) {
+      return invoke(time);
+    }
+    lastArgs = undefined;
+    settlePendingCalls(lastResult);
+    return lastResult;
+  };
+
+  const timerExpired = (): void => {
+    const time = clock.now();
+    if (shouldInvoke(time)) {
+      trailingEdge(time);
+      return;
+    }
+    timer = clock.setTimeout(timerExpired, remainingWait(time));
+  };
+
+  const debouncedFunc = (...args: Parameters<T>): Promise<Result> => {
+    const time = clock.now();
+    const isInvoking = shouldInvoke(time);
+    lastArgs = args;
+    lastCallTime = time;
+    const result = new Promise<Result>((resolve, reject) =>
+      pendingCalls.push({ resolve, reject })
+    );
+
+    if (isInvoking && timer === undefined) {
+      lastInvokeTime = time;
+      timer = clock.setTimeout(timerExpired, wait);
+      if (leading) {
+        invoke(time);
+      }
+    } else if (isInvoking && maxWait !== undefined) {
+      clock.clearTimeout(timer);
+      timer = clock.setTimeout(timerExpired, wait);
+      invoke(time);
+    } else if (timer === undefined) {
+      timer = clock.setTimeout(timerExpired, wait);
+    }
+    return result;
+  };
+
+  const flush = (): Promise<Result> => {
+    if (timer === undefined) {
+      return lastResult;
+    }
+    clock.clearTimeout(timer);
+    return trailingEdge(clock.now());
+  };
+
+  const cancel = (): void => {
+    clock.clearTimeout(timer);
+    timer = undefined;
+    lastArgs = undefined;
+    lastCallTime = undefined;
+    lastInvokeTime = 0;
+    const calls = pendingCalls;
+    pendingCalls = [];
+    calls.forEach(({ resolve, reject }) =>
+      rejectOnCancel ? reject(new CancelledError()) : resolve(undefined)
+    );
+  };
+
+  return Object.assign(debouncedFunc, { flush, cancel });
+}
+
+/**
+ * Delays the invocation of a function until `wait` milliseconds have elapsed since its last call.
+ * A burst of calls results in a single invocation with the latest arguments, and every call of the burst
+ * returns a promise settling with the result of that invocation.
+ *
+ * @template T - The type of the function to debounce.
+ * @param {T} func - The function to debounce, sync or async.
+ * @param {number} wait - The number of milliseconds to wait after the last call.
+ * @param {DebounceOptions} [options] - The edges on which to invoke the function, and the maximum delay.
+ * @returns {DebouncedFunction<T>} The debounced function, with `flush` and `cancel` methods.
+ *
+ * @example
+ * const search = debounce((query: string) => api.search(query), 300, { maxWait: 1000 });
+ *
+ * // Only the last query is sent, and both calls resolve with its results
+ * search("ap");
+ * const results = await search("apple");
+ */
+export function debounce<T extends (...args: any[]) => any>(
+  func: T,
+  wait: number,
+  options: DebounceOptions = {}
+): DebouncedFunction<T> {
+  const {
+    leading = false,
+    trailing = true,
+    maxWait,
+    rejectOnCancel = false,
+    clock = systemClock,
+  } = options;
+  return createDebounced(func, wait, {
+    leading,
+    trailing,
+    maxWait: maxWait === undefined ? undefined : Math.max(maxWait, wait),
+    rejectOnCancel,
+    clock,
+  });
+}
+
+/**
+ * Invokes a function at most once every `wait` milliseconds. By default the first call invokes it right away,
+ * and the latest call made during the wait invokes it again once the wait is over.
+ * Every call returns a promise settling with the result of the invocation it ends up in.
+ *
+ * @template T - The type of the function to throttle.
+ * @param {T} func - The function to throttle, sync or async.
+ * @param {number} wait - The minimum number of milliseconds between two invocations.
+ * @param {Omit<DebounceOptions, "maxWait">} [options] - The edges on which to invoke the function (both by default),
+ * whether `cancel` rejects the pending calls, and the clock to use.
+ * @returns {DebouncedFunction<T>} The throttled function, with `flush` and `cancel` methods.
+ *
+ * @example
+ * const savePosition = throttle((position: number) => api.savePosition(position), 1000);
+ *
+ * window.addEventListener("scroll", () => savePosition(window.scrollY));
+ */
+export function throttle<T extends (...args: any[]) => any>(
+  func: T,
+  wait: number,
+  options: Omit<DebounceOptions, "maxWait"> = {}
+): DebouncedFunction<T> {
+  const {
+    leading = true,
+    trailing = true,
+    rejectOnCancel = false,
+    clock = systemClock,
+  } = options;
+  return createDebounced(func, wait, {
+    leading,
+    trailing,
+    maxWait: wait,
+    rejectOnCancel,
+    clock,
+  });
+}
+
 /**
  * Generates the date of the previous month from a provided date.
+ * When the previous month is shorter, the result is clamped to its last day.
+ * The calendar is read in UTC, or in the time zone of the options, so the result never depends on the host time zone.
  *
  * @param {string} date - The reference date in string format (YYYY-MM-DD).
  * @param {number} amount - The number of months to subtract to get the previous month's date.
+ * @param {DateOptions} [options] - The time zone, UTC by default.
  * @returns {string} - The date of the previous month in string format (YYYY-MM-DD).
  * @example
  * const oneMonthToPast = 1;
  * const pastMonthDate = getPastMonthDate('2024-03-12', oneMonthToPast);
  * console.log(pastMonthDate); // Output: '2024-02-12'
+ * console.log(getPastMonthDate('2024-03-31', oneMonthToPast)); // Output: '2024-02-29'
  */
-export const getPastMonthDate = (date: string, amount: number): string => {
-  const pastMonthDate = new Date(date);
-  pastMonthDate.setMonth(pastMonthDate.getMonth() - amount);
-  const pastMonthDateWithoutTime = pastMonthDate.toISOString().split("T")[0];
+export const getPastMonthDate = (
+  date: string,
+  amount: number,
+  options: DateOptions = {}
+): string => {
+  const pastMonthDate = addMonths(new Date(date), -amount, options);
+  const pastMonthDateWithoutTime = toISODate(pastMonthDate, options);
 
   return pastMonthDateWithoutTime;
 };
 
 /**
  * Generates an array of Date objects, each representing the first day of each month between two specified dates, inclusive.
- * This function assumes that `initialDate` and `finalDate` are valid Date objects and that `initialDate` is earlier than or equal to `finalDate`.
+ * The array is empty when `initialDate` comes after `finalDate`, or when either of them is an Invalid Date.
+ * The months start at midnight UTC, or at midnight in the time zone of the options.
+ * Use `dateRange` for other steps, half-open ranges or lazy iteration.
  *
  * @param {Date} initialDate - The start date from which to begin generating the array of dates.
  * @param {Date} finalDate - The end date at which to stop generating the array of dates.
+ * @param {DateOptions} [options] - The time zone, UTC by default.
  * @returns {Date[]} An array of Date objects, each representing the first day of a month between the initial and final dates, inclusive.
  * @example
  * const initialDate = new Date('2023-01-15');
@@ -247,22 +1178,22 @@ export const getPastMonthDate = (date: string, amount: number): string => {
  * const dateRange = getDateRange(initialDate, finalDate);
  * console.log(dateRange); // Output: [new Date('2023-01-01'), new Date('2023-02-01'), new Date('2023-03-01')]
  */
-export const getDateRange = (initialDate: Date, finalDate: Date): Date[] => {
-  const oneYearMonths = 12;
-  const startYear = initialDate.getFullYear();
-  const endYear = finalDate.getFullYear();
-  const startMonth = initialDate.getMonth();
-  const endMonth = finalDate.getMonth();
-
-  const monthCount =
-    (endYear - startYear) * oneYearMonths + (endMonth - startMonth) + 1;
-
-  const dates = Array.from({ length: monthCount }, (_, index) => {
-    const date = new Date(startYear, startMonth + index, 1);
-    return date;
-  });
+export const getDateRange = (
+  initialDate: Date,
+  finalDate: Date,
+  options: DateOptions = {}
+): Date[] => {
+  // Compared before `dateRange` aligns the start to its month, which would keep a start later in the same month.
+  if (
+    Number.isNaN(initialDate.getTime()) ||
+    Number.isNaN(finalDate.getTime()) ||
+    initialDate.getTime() > finalDate.getTime()
+  ) {
+    return [];
+  }
+  const dates = Array.from(
+    dateRange(initialDate, finalDate, { ...options, step: "month" })
+  );
 
   return dates;
 };
-
-
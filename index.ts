@@ -1,3 +1,6 @@
 export * from "./async-data";
+export * from "./clock";
 export * from "./data-manipulation";
+export * from "./date";
 export * from "./functional";
+export * from "./json-patch";
@@ -0,0 +1,647 @@
+import { stableStringify } from "./data-manipulation";
+
+/**
+ * A JSON Patch operation, as defined by RFC 6902. Paths are JSON Pointers (RFC 6901), such as `"/items/0/name"`,
+ * where `~` is escaped as `~0` and `/` as `~1`. `"-"` designates the end of an array when adding.
+ */
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: unknown };
+
+/**
+ * Error thrown by `applyPatch` and `invertPatch` when an operation is malformed, targets a missing location,
+ * or is a failing `test`. `index` is the position of the operation in the patch.
+ */
+export class JsonPatchError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly operation: unknown,
+    public readonly index: number
+  ) {
+    super(`Patch operation ${index} failed: ${reason}`);
+    this.name = "JsonPatchError";
+  }
+}
+
+/**
+ * Options accepted by `diff`.
+ *
+ * - `arrayItemId`: identifies array items, as a property name or a function, so that an item is matched with its
+ *   new version wherever it moved and is patched in place. Items without an id are matched by value.
+ *   Without it, equal items are matched by value and the remaining ones are paired in order.
+ *   A function receives every item of every array, whatever its type, and returns `undefined` for items without an id.
+ */
+export type DiffOptions = {
+  arrayItemId?: string | ((item: unknown) => unknown);
+};
+
+const escapeSegment = (segment: string | number): string =>
+  String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+
+const toPointer = (segments: Array<string | number>): string =>
+  segments.map((segment) => `/${escapeSegment(segment)}`).join("");
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean =>
+  Object.is(a, b) || stableStringify(a) === stableStringify(b);
+
+/**
+ * Pairs the items of two arrays: first the items with the same id, or the same value when they have no id,
+ * then, when no id is configured, the remaining items in order.
+ * Returns, for each item of `after`, the index of its counterpart in `before`, or -1 for a new item.
+ */
+function matchArrayItems(
+  before: unknown[],
+  after: unknown[],
+  getId: ((item: unknown) => unknown) | undefined
+): number[] {
+  const getKey = (item: unknown): string => {
+    const id = getId?.(item);
+    return id === undefined
+      ? `value:${stableStringify(item)}`
+      : `id:${stableStringify(id)}`;
+  };
+
+  const positionsByKey = new Map<string, number[]>();
+  before.forEach((item, index) => {
+    const key = getKey(item);
+    const positions = positionsByKey.get(key);
+    if (positions) {
+      positions.push(index);
+    } else {
+      positionsByKey.set(key, [index]);
+    }
+  });
+
+  const matches = after.map(
+    (item) => positionsByKey.get(getKey(item))?.shift() ?? -1
+  );
+
+  if (!getId) {
+    const unmatched = Array.from(positionsByKey.values())
+      .flat()
+      .sort((x, y) => x - y);
+    matches.forEach((match, index) => {
+      if (match === -1 && unmatched.length > 0) {
+        matches[index] = unmatched.shift()!;
+      }
+    });
+  }
+  return matches;
+}
+
+function diffValues(
+  before: unknown,
+  after: unknown,
+  segments: Array<string | number>,
+  operations: JsonPatchOperation[],
+  getId: ((item: unknown) => unknown) | undefined
+): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, segments, operations, getId);
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const isPresent = (value: Record<string, unknown>, key: string) =>
+      Object.prototype.hasOwnProperty.call(value, key) &&
+      value[key] !== undefined;
+    Object.keys(before).forEach((key) => {
+      if (isPresent(before, key) && !isPresent(after, key)) {
+        operations.push({ op: "remove", path: toPointer([...segments, key]) });
+      }
+    });
+    Object.keys(after).forEach((key) => {
+      if (!isPresent(after, key)) {
+        return;
+      }
+      if (isPresent(before, key)) {
+        diffValues(
+          before[key],
+          after[key],
+          [...segments, key],
+          operations,
+          getId
+        );
+      } else {
+        operations.push({
+          op: "add",
+          path: toPointer([...segments, key]),
+          value: after[key],
+        });
+      }
+    });
+    return;
+  }
+  if (!isEqual(before, after)) {
+    operations.push({ op: "replace", path: toPointer(segments), value: after });
+  }
+}
+
+/**
+ * Diffs two arrays with moves: the items of `before` without a counterpart are removed, from the last one,
+ * then each position of `after` is filled in order, by moving its counterpart there and patching it,
+ * or by adding the new item.
+ */
+function diffArrays(
+  before: unknown[],
+  after: unknown[],
+  segments: Array<string | number>,
+  operations: JsonPatchOperation[],
+  getId: ((item: unknown) => unknown) | undefined
+): void {
+  const matches = matchArrayItems(before, after, getId);
+  const kept = new Set(matches.filter((match) => match !== -1));
+
+  const positions: number[] = [];
+  before.forEach((_, index) => {
+    if (kept.has(index)) {
+      positions.push(index);
+    }
+  });
+  for (let index = before.length - 1; index >= 0; index--) {
+    if (!kept.has(index)) {
+      operations.push({ op: "remove", path: toPointer([...segments, index]) });
+    }
+  }
+
+  after.forEach((item, index) => {
+    const match = matches[index];
+    if (match === -1) {
+      positions.splice(index, 0, -1);
+      operations.push({
+        op: "add",
+        path: toPointer([...segments, index]),
+        value: item,
+      });
+      return;
+    }
+    const currentIndex = positions.indexOf(match, index);
+    if (currentIndex !== index) {
+      positions.splice(currentIndex, 1);
+      positions.splice(index, 0, match);
+      operations.push({
+        op: "move",
+        from: toPointer([...segments, currentIndex]),
+        path: toPointer([...segments, index]),
+      });
+    }
+    diffValues(before[match], item, [...segments, index], operations, getId);
+  });
+}
+
+/**
+ * Computes the JSON Patch turning `before` into `after`. Arrays are diffed with moves, so a reordered item is moved
+ * rather than removed and added again, and `arrayItemId` matches items by id instead of by value.
+ * Properties holding `undefined` are treated as missing, as in JSON.
+ *
+ * @param {unknown} before - The original value.
+ * @param {unknown} after - The updated value.
+ * @param {DiffOptions} [options] - How array items are identified.
+ * @returns {JsonPatchOperation[]} The operations, to be applied in order.
+ *
+ * @example
+ * const before = { name: 'Ada', tags: ['a', 'b', 'c'] };
+ * const after = { name: 'Ada Lovelace', tags: ['c', 'a', 'b'] };
+ * diff(before, after);
+ * // Output: [
+ * //   { op: 'replace', path: '/name', value: 'Ada Lovelace' },
+ * //   { op: 'move', from: '/tags/2', path: '/tags/0' }
+ * // ]
+ *
+ * @example
+ * // Patch each user in place, wherever it moved
+ * diff(previousUsers, users, { arrayItemId: 'id' });
+ */
+export function diff(
+  before: unknown,
+  after: unknown,
+  options: DiffOptions = {}
+): JsonPatchOperation[] {
+  const { arrayItemId } = options;
+  const getId =
+    typeof arrayItemId === "string"
+      ? (item: unknown) => (isContainer(item) ? item[arrayItemId] : undefined)
+      : arrayItemId;
+  const operations: JsonPatchOperation[] = [];
+  diffValues(before, after, [], operations, getId);
+  return operations;
+}
+
+/**
+ * Splits a JSON Pointer into its unescaped segments.
+ */
+function parsePointer(
+  pointer: unknown,
+  fail: (reason: string) => never
+): string[] {
+  if (typeof pointer !== "string") {
+    return fail(`"${pointer}" is not a JSON Pointer.`);
+  }
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    return fail(`"${pointer}" is not a JSON Pointer, it must start with "/".`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Parses the index of an array item, up to `maxIndex` included.
+ */
+function parseIndex(
+  segment: string,
+  maxIndex: number,
+  fail: (reason: string) => never
+): number {
+  if (!/^(0|[1-9]\d*)$/.test(segment) || Number(segment) > maxIndex) {
+    return fail(
+      maxIndex < 0
+        ? `"${segment}" is not a valid index, the array is empty.`
+        : `"${segment}" is not an index between 0 and ${maxIndex}.`
+    );
+  }
+  return Number(segment);
+}
+
+const isContainer = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+/**
+ * Reads the child of a node at the segment ending `pointer`.
+ */
+function getChild(
+  node: unknown,
+  segment: string,
+  pointer: string,
+  fail: (reason: string) => never
+): unknown {
+  if (Array.isArray(node)) {
+    return node[parseIndex(segment, node.length - 1, fail)];
+  }
+  if (
+    !isContainer(node) ||
+    !Object.prototype.hasOwnProperty.call(node, segment)
+  ) {
+    return fail(`"${pointer}" does not exist.`);
+  }
+  return node[segment];
+}
+
+function getAtPointer(
+  document: unknown,
+  segments: string[],
+  fail: (reason: string) => never
+): unknown {
+  return segments.reduce<unknown>(
+    (node, segment, index) =>
+      getChild(node, segment, toPointer(segments.slice(0, index + 1)), fail),
+    document
+  );
+}
+
+/**
+ * Returns a copy of `document` where the container holding the last segment is replaced by the result of `update`.
+ * Only the containers along the path are copied, the other branches are shared.
+ */
+function updateContainer(
+  document: unknown,
+  segments: string[],
+  update: (container: Record<string, unknown>, key: string) => unknown,
+  fail: (reason: string) => never,
+  depth = 0
+): unknown {
+  const segment = segments[depth];
+  if (!isContainer(document)) {
+    return fail(
+      `"${toPointer(segments.slice(0, depth))}" is not an object or an array.`
+    );
+  }
+  if (depth === segments.length - 1) {
+    return update(document, segment);
+  }
+  const child = getChild(
+    document,
+    segment,
+    toPointer(segments.slice(0, depth + 1)),
+    fail
+  );
+  const updatedChild = updateContainer(
+    child,
+    segments,
+    update,
+    fail,
+    depth + 1
+  );
+  if (Array.isArray(document)) {
+    const copy = document.slice();
+    copy[Number(segment)] = updatedChild;
+    return copy;
+  }
+  // A computed key defines the property, where an assignment would run the `__proto__` setter.
+  return { ...document, [segment]: updatedChild };
+}
+
+function addAtPointer(
+  document: unknown,
+  segments: string[],
+  value: unknown,
+  fail: (reason: string) => never
+): unknown {
+  if (segments.length === 0) {
+    return value;
+  }
+  return updateContainer(
+    document,
+    segments,
+    (container, key) => {
+      if (Array.isArray(container)) {
+        const index =
+          key === "-"
+            ? container.length
+            : parseIndex(key, container.length, fail);
+        const copy = container.slice();
+        copy.splice(index, 0, value);
+        return copy;
+      }
+      return { ...container, [key]: value };
+    },
+    fail
+  );
+}
+
+function removeAtPointer(
+  document: unknown,
+  segments: string[],
+  fail: (reason: string) => never
+): unknown {
+  if (segments.length === 0) {
+    return fail("the root of the document cannot be removed.");
+  }
+  return updateContainer(
+    document,
+    segments,
+    (container, key) => {
+      if (Array.isArray(container)) {
+        const index = parseIndex(key, container.length - 1, fail);
+        return container.filter((_, itemIndex) => itemIndex !== index);
+      }
+      if (!Object.prototype.hasOwnProperty.call(container, key)) {
+        return fail(`"${toPointer(segments)}" does not exist.`);
+      }
+      const { [key]: _removed, ...copy } = container;
+      return copy;
+    },
+    fail
+  );
+}
+
+function replaceAtPointer(
+  document: unknown,
+  segments: string[],
+  value: unknown,
+  fail: (reason: string) => never
+): unknown {
+  getAtPointer(document, segments, fail);
+  if (segments.length === 0) {
+    return value;
+  }
+  return updateContainer(
+    document,
+    segments,
+    (container, key) =>
+      Array.isArray(container)
+        ? container.map((item, index) => (String(index) === key ? value : item))
+        : { ...container, [key]: value },
+    fail
+  );
+}
+
+/**
+ * Applies one operation, checking its shape and its locations.
+ */
+function applyOperation(
+  document: unknown,
+  operation: JsonPatchOperation,
+  fail: (reason: string) => never
+): unknown {
+  if (!isContainer(operation)) {
+    return fail("the operation is not an object.");
+  }
+  const path = parsePointer(operation.path, fail);
+  const requireValue = () => {
+    if (!("value" in operation)) {
+      fail(`a "${operation.op}" operation needs a value.`);
+    }
+  };
+
+  switch (operation.op) {
+    case "add":
+      requireValue();
+      return addAtPointer(document, path, operation.value, fail);
+    case "remove":
+      return removeAtPointer(document, path, fail);
+    case "replace":
+      requireValue();
+      return replaceAtPointer(document, path, operation.value, fail);
+    case "move": {
+      const from = parsePointer(operation.from, fail);
+      if (
+        from.length < path.length &&
+        from.every((segment, index) => segment === path[index])
+      ) {
+        return fail(
+          `"${operation.from}" cannot be moved into one of its children.`
+        );
+      }
+      const value = getAtPointer(document, from, fail);
+      return addAtPointer(
+        removeAtPointer(document, from, fail),
+        path,
+        value,
+        fail
+      );
+    }
+    case "copy": {
+      const from = parsePointer(operation.from, fail);
+      return addAtPointer(
+        document,
+        path,
+        getAtPointer(document, from, fail),
+        fail
+      );
+    }
+    case "test":
+      requireValue();
+      if (!isEqual(getAtPointer(document, path, fail), operation.value)) {
+        return fail(
+          `the value at "${operation.path}" is not the expected one.`
+        );
+      }
+      return document;
+    default:
+      return fail(
+        `"${(operation as { op: unknown }).op}" is not a patch operation.`
+      );
+  }
+}
+
+/**
+ * Applies a JSON Patch to a document and returns the patched document. The document is left untouched:
+ * the containers along the patched paths are copied and the other branches are shared.
+ *
+ * The operations are validated as they are applied. A malformed operation, a location that does not exist,
+ * or a failing `test` throws a `JsonPatchError`, and none of the patch is applied.
+ *
+ * @template T - The type of the document.
+ * @param {T} document - The document to patch.
+ * @param {JsonPatchOperation[]} operations - The operations to apply, in order.
+ * @returns {T} The patched document.
+ *
+ * @example
+ * const user = { name: 'Ada', version: 3 };
+ * const updated = applyPatch(user, [
+ *   { op: 'test', path: '/version', value: 3 },
+ *   { op: 'replace', path: '/name', value: 'Ada Lovelace' },
+ *   { op: 'replace', path: '/version', value: 4 },
+ * ]);
+ */
+export function applyPatch<T>(
+  document: T,
+  operations: JsonPatchOperation[]
+): T {
+  return operations.reduce<unknown>((patched, operation, index) => {
+    const fail = (reason: string): never => {
+      throw new JsonPatchError(reason, operation, index);
+    };
+    return applyOperation(patched, operation, fail);
+  }, document) as T;
+}
+
+/**
+ * Computes the patch undoing `operations`, given the document they apply to.
+ * Applying the patch and then its inverse gives back a document equal to the original one.
+ * `test` operations are checked against the document but have no inverse.
+ *
+ * @param {unknown} document - The document the patch applies to.
+ * @param {JsonPatchOperation[]} operations - The patch to invert.
+ * @returns {JsonPatchOperation[]} The operations undoing the patch.
+ *
+ * @example
+ * const patch = diff(before, after);
+ * const undo = invertPatch(before, patch);
+ * applyPatch(applyPatch(before, patch), undo); // Equal to before
+ */
+export function invertPatch(
+  document: unknown,
+  operations: JsonPatchOperation[]
+): JsonPatchOperation[] {
+  const inverses: JsonPatchOperation[][] = [];
+
+  operations.reduce<unknown>((patched, operation, index) => {
+    const fail = (reason: string): never => {
+      throw new JsonPatchError(reason, operation, index);
+    };
+    const next = applyOperation(patched, operation, fail);
+
+    const path = parsePointer(operation.path, fail);
+    const parent =
+      path.length === 0
+        ? undefined
+        : getAtPointer(patched, path.slice(0, -1), fail);
+    const replacesMember =
+      path.length === 0 ||
+      (!Array.isArray(parent) &&
+        Object.prototype.hasOwnProperty.call(parent, path[path.length - 1]));
+    const undoAdd = (): JsonPatchOperation[] =>
+      replacesMember
+        ? [
+            {
+              op: "replace",
+              path: operation.path,
+              value: getAtPointer(patched, path, fail),
+            },
+          ]
+        : [{ op: "remove", path: toPointer(addedSegments(next, path)) }];
+
+    switch (operation.op) {
+      case "add":
+      case "copy":
+        inverses.push(undoAdd());
+        break;
+      case "remove":
+        inverses.push([
+          {
+            op: "add",
+            path: operation.path,
+            value: getAtPointer(patched, path, fail),
+          },
+        ]);
+        break;
+      case "replace":
+        inverses.push([
+          {
+            op: "replace",
+            path: operation.path,
+            value: getAtPointer(patched, path, fail),
+          },
+        ]);
+        break;
+      case "move": {
+        const restoreTarget: JsonPatchOperation[] = replacesMember
+          ? [
+              {
+                op: "add",
+                path: operation.path,
+                value: getAtPointer(patched, path, fail),
+              },
+            ]
+          : [];
+        inverses.push([
+          {
+            op: "move",
+            from: toPointer(addedSegments(next, path)),
+            path: operation.from,
+          },
+          ...restoreTarget,
+        ]);
+        break;
+      }
+    }
+    return next;
+  }, document);
+
+  return inverses.reverse().flat();
+}
+
+/**
+ * Resolves the `"-"` segment of an add to the index the value ended up at.
+ */
+function addedSegments(patched: unknown, segments: string[]): string[] {
+  if (segments[segments.length - 1] !== "-") {
+    return segments;
+  }
+  const parent = segments
+    .slice(0, -1)
+    .reduce<unknown>(
+      (node, segment) => (isContainer(node) ? node[segment] : undefined),
+      patched
+    );
+  return Array.isArray(parent)
+    ? [...segments.slice(0, -1), String(parent.length - 1)]
+    : segments;
+}
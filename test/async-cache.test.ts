@@ -0,0 +1,225 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  asyncCache,
+  AsyncCacheStorage,
+  createMemoryCacheStorage,
+} from "../async-data";
+import { createVirtualClock } from "../clock";
+
+describe("asyncCache", () => {
+  it("shares in-flight calls and does not cache rejections", async () => {
+    let calls = 0;
+    const fetchValue = asyncCache(async (id: number) => {
+      calls++;
+      if (calls === 1) {
+        throw new Error("unavailable");
+      }
+      return id * 2;
+    });
+
+    await expect(fetchValue(1)).rejects.toThrow("unavailable");
+    const results = await Promise.all([fetchValue(1), fetchValue(1)]);
+    expect(results).toEqual([2, 2]);
+    expect(calls).toBe(2);
+  });
+
+  it("expires entries after their TTL on the given clock", async () => {
+    const clock = createVirtualClock();
+    const func = vi.fn(async (id: number) => id);
+    const cached = asyncCache(func, { ttl: { minutes: 5 }, clock });
+
+    await cached(1);
+    await clock.advance({ minutes: 4 });
+    await cached(1);
+    expect(func).toHaveBeenCalledTimes(1);
+
+    await clock.advance({ minutes: 2 });
+    await cached(1);
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves a stale value while a single background call refreshes it", async () => {
+    const clock = createVirtualClock();
+    let version = 0;
+    const func = vi.fn(async () => {
+      version++;
+      if (version === 3) {
+        throw new Error("unavailable");
+      }
+      return version;
+    });
+    const cached = asyncCache(func, {
+      ttl: { minutes: 1 },
+      staleWhileRevalidate: true,
+      clock,
+    });
+
+    await expect(cached()).resolves.toBe(1);
+    await clock.advance({ minutes: 2 });
+    await expect(Promise.all([cached(), cached()])).resolves.toEqual([1, 1]);
+    expect(func).toHaveBeenCalledTimes(2);
+    await vi.waitFor(() => expect(cached()).resolves.toBe(2));
+
+    await clock.advance({ minutes: 2 });
+    await expect(cached()).resolves.toBe(2);
+    await vi.waitFor(() => expect(func).toHaveBeenCalledTimes(3));
+    await expect(cached()).resolves.toBe(2);
+  });
+
+  it("evicts the least recently used entries beyond maxEntries", async () => {
+    const cached = asyncCache(async (id: number) => id, { maxEntries: 2 });
+    await cached(1);
+    await cached(2);
+    await cached(1);
+    await cached(3);
+
+    expect(cached.stats()).toMatchObject({ size: 2, evictions: 1, hits: 1 });
+    await cached(1);
+    expect(cached.stats().hits).toBe(2);
+  });
+
+  it("only reports the total size when the values are measured", async () => {
+    const unmeasured = asyncCache(async (text: string) => text, {
+      maxEntries: 10,
+    });
+    await unmeasured("abc");
+    expect(unmeasured.stats()).not.toHaveProperty("totalSize");
+
+    const measured = asyncCache(async (text: string) => text, {
+      sizeOf: (text) => text.length,
+    });
+    await measured("abc");
+    await measured("de");
+    expect(measured.stats().totalSize).toBe(5);
+  });
+});
+
+describe("asyncCache keys and tags", () => {
+  type OrderQuery = { userId: number; status: string; traceId?: string };
+  const createOrderCache = () => {
+    const func = vi.fn(
+      async (query: OrderQuery) => `${query.userId}:${query.status}`
+    );
+    const cached = asyncCache(func, {
+      keyResolver: (query) => `${query.userId}:${query.status}`,
+      tags: (query) => [`user:${query.userId}`],
+    });
+    return { func, cached };
+  };
+
+  it("shares the entries of the calls resolving to the same key", async () => {
+    const { func, cached } = createOrderCache();
+    await cached({ userId: 1, status: "open", traceId: "a" });
+    await cached({ userId: 1, status: "open", traceId: "b" });
+    await cached({ userId: 1, status: "closed" });
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops the entries of a tag and keeps the others", async () => {
+    const { func, cached } = createOrderCache();
+    await cached({ userId: 1, status: "open" });
+    await cached({ userId: 1, status: "closed" });
+    await cached({ userId: 2, status: "open" });
+
+    await cached.invalidateTag("user:1");
+    expect(cached.stats().size).toBe(1);
+    await cached({ userId: 2, status: "open" });
+    expect(func).toHaveBeenCalledTimes(3);
+    await cached({ userId: 1, status: "open" });
+    expect(func).toHaveBeenCalledTimes(4);
+  });
+
+  it("drops the stored entries of a tag", async () => {
+    const storage = createMemoryCacheStorage<number>();
+    const cached = asyncCache(async (id: number) => id, {
+      storage,
+      keyResolver: (id) => `id:${id}`,
+      tags: (id) => [id % 2 === 0 ? "even" : "odd"],
+    });
+    await Promise.all([cached(1), cached(2), cached(3)]);
+
+    await cached.invalidateTag("odd");
+    expect(await storage.keys()).toEqual(["id:2"]);
+  });
+});
+
+describe("asyncCache with a storage", () => {
+  const failingStorage = (): AsyncCacheStorage<number> => {
+    const fail = async (): Promise<never> => {
+      throw new Error("disk full");
+    };
+    return { get: fail, set: fail, delete: fail, clear: fail, keys: fail };
+  };
+
+  it("keeps the results of successful calls when the storage fails", async () => {
+    const onStorageError = vi.fn();
+    const cached = asyncCache(async (id: number) => id * 2, {
+      storage: failingStorage(),
+      onStorageError,
+    });
+
+    await expect(cached(2)).resolves.toBe(4);
+    cached.deleteCache(2);
+    cached.clearCache();
+    await cached.invalidateTag("any");
+
+    expect(onStorageError.mock.calls.map(([, operation]) => operation)).toEqual(
+      ["get", "set", "delete", "clear", "invalidateTag"]
+    );
+  });
+
+  it("reads entries stored by another cache", async () => {
+    const storage = createMemoryCacheStorage<number>();
+    const func = vi.fn(async (id: number) => id * 2);
+    await asyncCache(func, { storage })(2);
+    await expect(asyncCache(func, { storage })(2)).resolves.toBe(4);
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not store the result of a call in flight when its entry is deleted", async () => {
+    const storage = createMemoryCacheStorage<number>();
+    const resolvers: Array<(value: number) => void> = [];
+    const cached = asyncCache(
+      () => new Promise<number>((resolve) => resolvers.push(resolve)),
+      { storage }
+    );
+
+    const call = cached();
+    await vi.waitFor(() => expect(resolvers).toHaveLength(1));
+    cached.deleteCache();
+    resolvers[0](1);
+    await call;
+    await cached.invalidateTag("flush");
+
+    expect(await storage.keys()).toEqual([]);
+  });
+
+  it("does not store the result of a call in flight when one of its tags is invalidated", async () => {
+    const storage = createMemoryCacheStorage<number>();
+    const resolvers: Array<(value: number) => void> = [];
+    const cached = asyncCache(
+      (id: number) => new Promise<number>((resolve) => resolvers.push(resolve)),
+      { storage, tags: (id) => [`id:${id}`] }
+    );
+
+    const calls = [cached(1), cached(2)];
+    await vi.waitFor(() => expect(resolvers).toHaveLength(2));
+    await cached.invalidateTag("id:1");
+    resolvers.forEach((resolve, index) => resolve(index + 1));
+    await Promise.all(calls);
+    await cached.invalidateTag("flush");
+
+    expect(await storage.keys()).toEqual(["[2]"]);
+  });
+});
+
+describe("createMemoryCacheStorage", () => {
+  it("stores entries as JSON, like the persistent storages", async () => {
+    const storage = createMemoryCacheStorage<unknown>();
+    await storage.set("date", { value: new Date(0), timestamp: 0 });
+    expect((await storage.get("date"))?.value).toBe("1970-01-01T00:00:00.000Z");
+    await expect(
+      storage.set("big", { value: 1n, timestamp: 0 })
+    ).rejects.toThrow(TypeError);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from "vitest";
+import { asyncCache, sleep, TimeoutError, withTimeout } from "../async-data";
+import { createVirtualClock, toMilliseconds } from "../clock";
+
+describe("toMilliseconds", () => {
+  it("reads bare numbers as milliseconds and adds up the units of duration objects", () => {
+    expect(toMilliseconds(250)).toBe(250);
+    expect(toMilliseconds({ minutes: 1, seconds: 30, ms: 5 })).toBe(90005);
+    expect(toMilliseconds({})).toBe(0);
+  });
+});
+
+describe("createVirtualClock", () => {
+  it("runs the timers falling due, in order, when advanced", async () => {
+    const clock = createVirtualClock({ now: new Date(1000) });
+    const calls: number[] = [];
+    clock.setTimeout(() => calls.push(clock.now()), 200);
+    clock.setTimeout(() => calls.push(clock.now()), 100);
+    const cancelled = clock.setTimeout(() => calls.push(-1), 50);
+    clock.clearTimeout(cancelled);
+
+    await clock.advance(150);
+    expect(calls).toEqual([1100]);
+    expect(clock.pendingTimers()).toBe(1);
+
+    await clock.advance({ ms: 50 });
+    expect(calls).toEqual([1100, 1200]);
+    expect(clock.now()).toBe(1200);
+  });
+});
+
+describe("sleep", () => {
+  it("waits for a duration object", async () => {
+    const clock = createVirtualClock();
+    const done = vi.fn();
+    void sleep({ seconds: 6 }, { clock }).then(done);
+
+    await clock.advance({ seconds: 5 });
+    expect(done).not.toHaveBeenCalled();
+    await clock.advance({ seconds: 1 });
+    expect(done).toHaveBeenCalled();
+  });
+
+  it("rejects with the reason of its signal", async () => {
+    const controller = new AbortController();
+    const result = sleep(
+      { minutes: 1 },
+      {
+        signal: controller.signal,
+        clock: createVirtualClock(),
+      }
+    );
+    controller.abort("stopped");
+    await expect(result).rejects.toBe("stopped");
+  });
+
+  it("reads a bare number as milliseconds", async () => {
+    const clock = createVirtualClock();
+    const resolved = vi.fn();
+    sleep(100, { clock }).then(resolved);
+    await clock.advance(99);
+    expect(resolved).not.toHaveBeenCalled();
+    await clock.advance(1);
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it("rejects an invalid duration instead of throwing", async () => {
+    let result: Promise<void> | undefined;
+    expect(() => (result = sleep(-1))).not.toThrow();
+    await expect(result).rejects.toBeInstanceOf(RangeError);
+    await expect(sleep(NaN)).rejects.toBeInstanceOf(RangeError);
+  });
+});
+
+describe("withTimeout", () => {
+  it("reads a bare number as milliseconds", async () => {
+    const clock = createVirtualClock();
+    const assertion = expect(
+      withTimeout(new Promise(() => {}), 100, { clock })
+    ).rejects.toBeInstanceOf(TimeoutError);
+    await clock.advance(100);
+    await assertion;
+  });
+});
+
+describe("asyncCache durations", () => {
+  it("reads a bare number as milliseconds in the options", async () => {
+    const clock = createVirtualClock();
+    const func = vi.fn(async () => 1);
+    const cached = asyncCache(func, { ttl: 100, clock });
+
+    await cached();
+    await clock.advance(100);
+    await cached();
+    expect(func).toHaveBeenCalledTimes(1);
+    await clock.advance(1);
+    await cached();
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it("still reads a bare number given instead of the options as a TTL in minutes", async () => {
+    vi.useFakeTimers();
+    try {
+      const func = vi.fn(async () => 1);
+      const cached = asyncCache(func, 5);
+
+      await cached();
+      vi.advanceTimersByTime(5 * 60000);
+      await cached();
+      expect(func).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(1);
+      await cached();
+      expect(func).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("rejects a negative or non-finite TTL", () => {
+    const func = async () => 1;
+    expect(() => asyncCache(func, { ttl: -1 })).toThrow(RangeError);
+    expect(() => asyncCache(func, { pruneInterval: NaN })).toThrow(RangeError);
+    expect(() => asyncCache(func, -1)).toThrow(RangeError);
+  });
+
+  it("prunes the expired entries at the given interval", async () => {
+    const clock = createVirtualClock();
+    const cached = asyncCache(async (id: number) => id, {
+      ttl: { seconds: 30 },
+      pruneInterval: { minutes: 1 },
+      clock,
+    });
+
+    await cached(1);
+    await clock.advance({ seconds: 59 });
+    expect(cached.stats().size).toBe(1);
+    await clock.advance({ seconds: 1 });
+    expect(cached.stats().size).toBe(0);
+    cached.dispose();
+  });
+});
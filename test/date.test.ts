@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  addMonths,
+  addYears,
+  createBusinessCalendar,
+  dateRange,
+  startOf,
+  toISODate,
+} from "../date";
+import { getDateRange, getPastMonthDate } from "../functional";
+
+const isoDates = (dates: Iterable<Date>) =>
+  Array.from(dates, (date) => toISODate(date));
+
+describe("addMonths", () => {
+  it("clamps to the end of shorter months", () => {
+    expect(toISODate(addMonths(new Date("2024-03-31"), -1))).toBe("2024-02-29");
+    expect(toISODate(addMonths(new Date("2023-01-31"), 1))).toBe("2023-02-28");
+  });
+
+  it("keeps the wall clock time across daylight saving time in a time zone", () => {
+    const options = { timeZone: "America/New_York" };
+    const date = addMonths(new Date("2024-02-10T15:00:00Z"), 1, options);
+    expect(date.toISOString()).toBe("2024-03-10T14:00:00.000Z");
+  });
+});
+
+describe("addDays and addYears", () => {
+  it("crosses month and year boundaries", () => {
+    expect(toISODate(addDays(new Date("2024-12-31"), 1))).toBe("2025-01-01");
+    expect(toISODate(addYears(new Date("2024-02-29"), 1))).toBe("2025-02-28");
+  });
+});
+
+describe("startOf", () => {
+  it("starts weeks on Monday by default, or on the given day", () => {
+    const sunday = new Date("2024-06-09T12:00:00Z");
+    expect(toISODate(startOf(sunday, "week"))).toBe("2024-06-03");
+    expect(toISODate(startOf(sunday, "week", { weekStartsOn: 0 }))).toBe(
+      "2024-06-09"
+    );
+  });
+
+  it("starts quarters on their first month", () => {
+    expect(toISODate(startOf(new Date("2024-08-15"), "quarter"))).toBe(
+      "2024-07-01"
+    );
+  });
+});
+
+describe("dateRange", () => {
+  it("does not drift when a month is shorter", () => {
+    const range = dateRange(new Date("2024-01-31"), new Date("2024-04-30"), {
+      step: "month",
+      align: false,
+    });
+    expect(isoDates(range)).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+    ]);
+  });
+
+  it("excludes the end when it is not inclusive", () => {
+    const range = dateRange(new Date("2024-01-01"), new Date("2024-01-03"), {
+      inclusive: false,
+    });
+    expect(isoDates(range)).toEqual(["2024-01-01", "2024-01-02"]);
+  });
+
+  it("is empty when the end comes before the start", () => {
+    expect(
+      isoDates(dateRange(new Date("2024-02-01"), new Date("2024-01-01")))
+    ).toEqual([]);
+  });
+
+  it("rejects Invalid Dates instead of never ending", () => {
+    expect(() => Array.from(dateRange(new Date("x"), new Date()))).toThrow(
+      RangeError
+    );
+    expect(() => Array.from(dateRange(new Date(), new Date("x")))).toThrow(
+      RangeError
+    );
+  });
+
+  it("rejects step counts that are not positive integers", () => {
+    const range = (every: number) =>
+      Array.from(dateRange(new Date(0), new Date(0), { every }));
+    expect(() => range(0)).toThrow(RangeError);
+    expect(() => range(1.5)).toThrow(RangeError);
+  });
+});
+
+describe("getDateRange and getPastMonthDate", () => {
+  it("returns the first day of each month", () => {
+    const range = getDateRange(new Date("2023-01-15"), new Date("2023-03-10"));
+    expect(isoDates(range)).toEqual(["2023-01-01", "2023-02-01", "2023-03-01"]);
+  });
+
+  it("returns an empty array for Invalid Dates, as it always did", () => {
+    expect(getDateRange(new Date("x"), new Date("2023-03-10"))).toEqual([]);
+    expect(getDateRange(new Date("2023-01-15"), new Date("x"))).toEqual([]);
+  });
+
+  it("returns an empty array when the initial date comes after the final date", () => {
+    expect(
+      getDateRange(new Date("2023-03-20"), new Date("2023-03-10"))
+    ).toEqual([]);
+    expect(
+      getDateRange(new Date("2023-05-01"), new Date("2023-03-10"))
+    ).toEqual([]);
+    expect(
+      isoDates(getDateRange(new Date("2023-03-10"), new Date("2023-03-10")))
+    ).toEqual(["2023-03-01"]);
+  });
+
+  it("clamps the past month to its last day", () => {
+    expect(getPastMonthDate("2024-03-31", 1)).toBe("2024-02-29");
+  });
+});
+
+describe("createBusinessCalendar", () => {
+  const calendar = createBusinessCalendar({
+    holidays: ["2024-12-25", "2024-12-26"],
+  });
+
+  it("skips weekends and holidays when adding business days", () => {
+    const date = calendar.addBusinessDays(new Date("2024-12-24T09:00:00Z"), 1);
+    expect(date.toISOString()).toBe("2024-12-27T09:00:00.000Z");
+    expect(
+      toISODate(calendar.addBusinessDays(new Date("2024-12-27"), -1))
+    ).toBe("2024-12-24");
+  });
+
+  it("counts business days in a half-open range, negative when reversed", () => {
+    const start = new Date("2024-12-23");
+    const end = new Date("2024-12-30");
+    expect(calendar.countBusinessDays(start, end)).toBe(3);
+    expect(calendar.countBusinessDays(end, start)).toBe(-3);
+  });
+
+  it("rejects invalid input", () => {
+    expect(() =>
+      createBusinessCalendar({ weekend: [0, 1, 2, 3, 4, 5, 6] })
+    ).toThrow(RangeError);
+    expect(() => calendar.addBusinessDays(new Date(), Infinity)).toThrow(
+      RangeError
+    );
+    expect(() => calendar.countBusinessDays(new Date("x"), new Date())).toThrow(
+      RangeError
+    );
+  });
+});
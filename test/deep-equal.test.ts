@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { deepEqual, explainInequality } from "../data-manipulation";
+
+describe("deepEqual", () => {
+  it.each<[string, unknown, unknown]>([
+    ["NaN", NaN, NaN],
+    [
+      "nested objects and Sets",
+      { tags: new Set(["a", "b"]) },
+      { tags: new Set(["b", "a"]) },
+    ],
+    [
+      "Maps with object keys",
+      new Map([[{ id: 1 }, "a"]]),
+      new Map([[{ id: 1 }, "a"]]),
+    ],
+    ["Dates", new Date(0), new Date(0)],
+    ["typed arrays", new Float64Array([1, NaN]), new Float64Array([1, NaN])],
+    ["buffers", new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2]).buffer],
+    [
+      "data views",
+      new DataView(new Uint8Array([1]).buffer),
+      new DataView(new Uint8Array([1]).buffer),
+    ],
+    ["boxed primitives", new String("a"), new String("a")],
+    ["errors", new Error("a"), new Error("a")],
+    ["array properties", /a/.exec("a"), /a/.exec("a")],
+  ])("considers equal %s", (_, left, right) => {
+    expect(deepEqual(left, right)).toBe(true);
+  });
+
+  it.each<[string, unknown, unknown]>([
+    ["0 and -0", 0, -0],
+    ["1 and '1'", 1, "1"],
+    [
+      "typed arrays of different types",
+      new Uint8Array([1]),
+      new Int8Array([1]),
+    ],
+    [
+      "typed arrays with different items",
+      new Int32Array([1]),
+      new Int32Array([2]),
+    ],
+    [
+      "buffers with different bytes",
+      new Uint8Array([1]).buffer,
+      new Uint8Array([2]).buffer,
+    ],
+    ["boxed primitives", new Number(1), new Number(2)],
+    ["errors with different messages", new Error("a"), new Error("b")],
+    ["regular expressions with different flags", /a/g, /a/i],
+    [
+      "arrays with different extra properties",
+      Object.assign([1], { a: 1 }),
+      [1],
+    ],
+    ["a property holding undefined and a missing one", { a: undefined }, {}],
+  ])("tells apart %s", (_, left, right) => {
+    expect(deepEqual(left, right)).toBe(false);
+  });
+
+  it("supports circular references", () => {
+    const left: { self?: unknown } = {};
+    left.self = left;
+    const right: { self?: unknown } = {};
+    right.self = right;
+    expect(deepEqual(left, right)).toBe(true);
+  });
+
+  it("applies its options", () => {
+    expect(deepEqual([1, 2], [2, 1], { ignoreArrayOrder: true })).toBe(true);
+    expect(
+      deepEqual({ a: 1, at: 1 }, { a: 1, at: 2 }, { ignoreKeys: ["at"] })
+    ).toBe(true);
+    expect(deepEqual(0.1 + 0.2, 0.3, { numericTolerance: 1e-9 })).toBe(true);
+  });
+});
+
+describe("explainInequality", () => {
+  it("reports the path and the reason of the first difference", () => {
+    expect(
+      explainInequality(
+        { user: { roles: ["a", "b"] } },
+        { user: { roles: ["a"] } }
+      )
+    ).toEqual({
+      path: ["user", "roles", 1],
+      left: "b",
+      right: undefined,
+      reason: "The lengths differ: 2 on the left, 1 on the right.",
+    });
+  });
+
+  it("returns undefined for equal values", () => {
+    expect(explainInequality([1, { a: 2 }], [1, { a: 2 }])).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { object } from "../data-manipulation";
+
+describe("deepMerge", () => {
+  it("merges nested objects, the later values winning, and skips undefined values", () => {
+    const config = { server: { host: "localhost", port: 80 }, tags: ["web"] };
+    expect(
+      object(config).deepMerge(
+        { server: { port: 8080 }, tags: ["api"] },
+        { server: { host: undefined } }
+      )
+    ).toEqual({ server: { host: "localhost", port: 8080 }, tags: ["api"] });
+    expect(config.server.port).toBe(80);
+  });
+
+  it("keeps a __proto__ key of a parsed mixin as a property", () => {
+    const mixin = JSON.parse(
+      '{"__proto__": {"polluted": true}, "nested": {"__proto__": {"polluted": true}}}'
+    );
+    const merged: Record<string, unknown> = object({ nested: {} }).deepMerge(
+      mixin
+    );
+
+    expect(Object.getPrototypeOf(merged)).toBe(Object.prototype);
+    expect(Object.getPrototypeOf(merged.nested)).toBe(Object.prototype);
+    expect((merged as { polluted?: boolean }).polluted).toBeUndefined();
+    expect(Object.prototype.hasOwnProperty.call(merged, "__proto__")).toBe(
+      true
+    );
+    expect(({} as { polluted?: boolean }).polluted).toBeUndefined();
+  });
+
+  it("merges a target holding a __proto__ key without changing the prototype of the copy", () => {
+    const target = JSON.parse('{"__proto__": {"a": 1}}');
+    const merged = object(target).deepMerge({ b: 2 });
+
+    expect(Object.getPrototypeOf(merged)).toBe(Object.prototype);
+    expect(Object.keys(merged).sort()).toEqual(["__proto__", "b"]);
+  });
+});
+
+describe("deepMergeWith", () => {
+  it("applies the array strategies and the resolvers of the paths", () => {
+    const config = { plugins: [{ name: "auth", enabled: false }], version: 1 };
+    const merged = object(config).deepMergeWith(
+      {
+        arrays: { unionBy: "name" },
+        paths: {
+          version: (current, next) => Math.max(Number(current), Number(next)),
+        },
+      },
+      {
+        plugins: [{ name: "auth", enabled: true }, { name: "cache" }],
+        version: 0,
+      }
+    );
+    expect(merged).toEqual({
+      plugins: [{ name: "auth", enabled: true }, { name: "cache" }],
+      version: 1,
+    });
+  });
+
+  it("concatenates or merges arrays by index", () => {
+    const lists = { items: [{ a: 1 }, { a: 2 }] };
+    expect(
+      object(lists).deepMergeWith({ arrays: "concat" }, { items: [{ a: 3 }] })
+        .items
+    ).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+    expect(
+      object(lists).deepMergeWith(
+        { arrays: "mergeByIndex" },
+        { items: [{ b: 1 }] }
+      ).items
+    ).toEqual([{ a: 1, b: 1 }, { a: 2 }]);
+  });
+
+  it("matches the array items by the result of a unionBy function", () => {
+    const tags = { tags: ["api", { name: "web", public: false }] };
+    const merged = object(tags).deepMergeWith(
+      {
+        arrays: {
+          unionBy: (item: unknown) =>
+            typeof item === "object" && item !== null && "name" in item
+              ? item.name
+              : item,
+        },
+      },
+      { tags: [{ name: "web", public: true }, "api", "cli"] }
+    );
+    expect(merged.tags).toEqual(["api", { name: "web", public: true }, "cli"]);
+  });
+});
+
+describe("path helpers", () => {
+  const config = {
+    server: { host: "localhost", ports: [8080, 8443] },
+    tags: ["web"],
+  };
+
+  it("reads and tells whether a path exists", () => {
+    expect(object(config).get("server.ports.1")).toBe(8443);
+    expect(object(config).get("server.ports.2")).toBeUndefined();
+    expect(object(config).has("server.host")).toBe(true);
+    expect(object(config).has("server.ports.2")).toBe(false);
+  });
+
+  it("sets and updates a path, copying only the nodes along it", () => {
+    const updated = object(config).set("server.ports.0", 80);
+    expect(updated.server.ports).toEqual([80, 8443]);
+    expect(config.server.ports).toEqual([8080, 8443]);
+    expect(updated.tags).toBe(config.tags);
+    expect(object(config).set("server.host", "localhost")).toBe(config);
+
+    const bumped = object(config).update("server.ports", (ports) => [
+      ...ports,
+      9000,
+    ]);
+    expect(bumped.server.ports).toEqual([8080, 8443, 9000]);
+  });
+
+  it("creates the missing nodes, as arrays before an index", () => {
+    const sparse: { items?: { name: string }[] } = {};
+    expect(object(sparse).set("items.0.name", "first")).toEqual({
+      items: [{ name: "first" }],
+    });
+  });
+
+  it("unsets a path, making the removed property optional", () => {
+    const withoutHost = object(config).unset("server.host");
+    expect(withoutHost.server).toEqual({ ports: [8080, 8443] });
+    expect(config.server.host).toBe("localhost");
+    expectTypeOf(withoutHost.server.host).toEqualTypeOf<string | undefined>();
+
+    expect(object(config).unset("server.ports.0").server.ports).toEqual([8443]);
+    expect(object(config).unset("server.ports.5")).toBe(config);
+  });
+
+  it("sets a __proto__ segment as an own property without changing any prototype", () => {
+    const parsed: Record<string, unknown> = JSON.parse(
+      '{"__proto__": {"a": 1}}'
+    );
+    const updated = object(parsed).set("__proto__", { a: 2 });
+
+    expect(Object.getPrototypeOf(updated)).toBe(Object.prototype);
+    expect(
+      Object.getOwnPropertyDescriptor(updated, "__proto__")?.value
+    ).toEqual({
+      a: 2,
+    });
+
+    const created = object({} as Record<string, Record<string, boolean>>).set(
+      "__proto__.polluted",
+      true
+    );
+    expect(Object.getPrototypeOf(created)).toBe(Object.prototype);
+    expect(({} as { polluted?: boolean }).polluted).toBeUndefined();
+  });
+});
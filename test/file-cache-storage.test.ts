@@ -0,0 +1,133 @@
+import { mkdtemp, readFile, rm, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFileCacheStorage } from "../file-cache-storage";
+
+describe("createFileCacheStorage", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "file-cache-storage-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const readCacheFile = async (namespace: string) =>
+    JSON.parse(await readFile(join(directory, `${namespace}.json`), "utf8"));
+
+  it("writes the changes made together in one batch", async () => {
+    const storage = createFileCacheStorage<number>({
+      directory,
+      namespace: "numbers",
+    });
+
+    await Promise.all([
+      storage.set("a", { value: 1, timestamp: 0 }),
+      storage.set("b", { value: 2, timestamp: 0 }),
+      storage.delete("a"),
+    ]);
+
+    expect(await readCacheFile("numbers")).toEqual({
+      b: { value: 2, timestamp: 0 },
+    });
+  });
+
+  it("reads the entries written by another storage", async () => {
+    const options = { directory, namespace: "shared", writeDelay: 0 };
+    await createFileCacheStorage<number>(options).set("a", {
+      value: 1,
+      timestamp: 0,
+    });
+
+    const storage = createFileCacheStorage<number>(options);
+    expect(await storage.keys()).toEqual(["a"]);
+    expect(await storage.get("a")).toEqual({ value: 1, timestamp: 0 });
+    expect(await storage.get("toString")).toBeUndefined();
+  });
+
+  it("reads the file again once another process has changed it", async () => {
+    const storage = createFileCacheStorage<number>({
+      directory,
+      namespace: "copy",
+    });
+    expect(await storage.keys()).toEqual([]);
+
+    await writeFile(
+      join(directory, "copy.json"),
+      '{"a":{"value":1,"timestamp":0}}'
+    );
+
+    expect(await storage.get("a")).toEqual({ value: 1, timestamp: 0 });
+  });
+
+  it("keeps the entries of the storages sharing a file", async () => {
+    const options = { directory, namespace: "workers", writeDelay: 0 };
+    const first = createFileCacheStorage<number>(options);
+    const second = createFileCacheStorage<number>(options);
+    expect(await first.keys()).toEqual([]);
+    expect(await second.keys()).toEqual([]);
+
+    await Promise.all([
+      first.set("a", { value: 1, timestamp: 0 }),
+      second.set("b", { value: 2, timestamp: 0 }),
+    ]);
+    await second.delete("a");
+    await first.set("c", { value: 3, timestamp: 0 });
+
+    expect(await readCacheFile("workers")).toEqual({
+      b: { value: 2, timestamp: 0 },
+      c: { value: 3, timestamp: 0 },
+    });
+    expect((await first.keys()).sort()).toEqual(["b", "c"]);
+    expect(await second.get("c")).toEqual({ value: 3, timestamp: 0 });
+  });
+
+  it("removes a lock left behind by a crashed process", async () => {
+    await writeFile(join(directory, "locked.json.lock"), "");
+    const past = new Date(Date.now() - 60000);
+    await utimes(join(directory, "locked.json.lock"), past, past);
+    const storage = createFileCacheStorage<number>({
+      directory,
+      namespace: "locked",
+      writeDelay: 0,
+    });
+
+    await storage.set("a", { value: 1, timestamp: 0 });
+
+    expect(await readCacheFile("locked")).toEqual({
+      a: { value: 1, timestamp: 0 },
+    });
+  });
+
+  it("rejects values that cannot be serialized", async () => {
+    const storage = createFileCacheStorage<bigint>({
+      directory,
+      namespace: "bigints",
+    });
+    await expect(storage.set("a", { value: 1n, timestamp: 0 })).rejects.toThrow(
+      TypeError
+    );
+    expect(await storage.keys()).toEqual([]);
+  });
+
+  it("retries reading a file that could not be parsed", async () => {
+    await writeFile(join(directory, "broken.json"), "{");
+    const storage = createFileCacheStorage<number>({
+      directory,
+      namespace: "broken",
+    });
+    await expect(storage.get("a")).rejects.toThrow(SyntaxError);
+
+    await writeFile(join(directory, "broken.json"), "{}");
+    await expect(storage.get("a")).resolves.toBeUndefined();
+  });
+
+  it("rejects an invalid write delay", () => {
+    expect(() =>
+      createFileCacheStorage({ directory, namespace: "a", writeDelay: -1 })
+    ).toThrow(RangeError);
+  });
+});
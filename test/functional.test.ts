@@ -0,0 +1,153 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { createVirtualClock } from "../clock";
+import {
+  _,
+  CancelledError,
+  curry,
+  curryN,
+  debounce,
+  partial,
+  partialRight,
+  rateLimit,
+  throttle,
+} from "../functional";
+
+const add = (a: number, b: number, c: number) => a + b + c;
+
+describe("curry", () => {
+  it("collects the arguments over several calls", () => {
+    const curriedAdd = curry(add);
+    expect(curriedAdd(1)(2)(3)).toBe(6);
+    expect(curriedAdd(1, 2)(3)).toBe(6);
+    expect(curriedAdd(1, 2, 3)).toBe(6);
+  });
+
+  it("binds the leading arguments given along with the function", () => {
+    const addToOne = curry(add, 1);
+    expectTypeOf(addToOne(2)(3)).toEqualTypeOf<number>();
+    expect(addToOne(2)(3)).toBe(6);
+    expect(curry(add, 1, 2, 3)).toBe(6);
+  });
+
+  it("skips arguments with the placeholder", () => {
+    const subtract = curry((a: number, b: number) => a - b);
+    expect(subtract(_, 2)(5)).toBe(3);
+    expect(curry(add)(_, _, 3)(1)(2)).toBe(6);
+  });
+});
+
+describe("curryN", () => {
+  it("collects the given number of arguments", () => {
+    const sumAll = (...values: number[]) =>
+      values.reduce((total, value) => total + value, 0);
+    expect(curryN(3, sumAll)(1)(2)(3)).toBe(6);
+  });
+
+  it("rejects invalid arities", () => {
+    expect(() => curryN(-1 as number, add)).toThrow(RangeError);
+    expect(() => curryN(1.5 as number, add)).toThrow(RangeError);
+  });
+});
+
+describe("partial and partialRight", () => {
+  const greet = (greeting: string, name: string) => `${greeting}, ${name}!`;
+
+  it("binds the leading or trailing arguments", () => {
+    expect(partial(greet, "Hello")("John")).toBe("Hello, John!");
+    const greetJohn = partialRight(greet, "John");
+    expectTypeOf(greetJohn).parameters.toEqualTypeOf<[greeting: string]>();
+    expect(greetJohn("Hi")).toBe("Hi, John!");
+  });
+});
+
+describe("debounce", () => {
+  it("invokes the function once per burst and resolves every call with its result", async () => {
+    const clock = createVirtualClock();
+    const func = vi.fn((query: string) => query.toUpperCase());
+    const search = debounce(func, 300, { clock });
+
+    const calls = [search("a"), search("ap")];
+    await clock.advance({ ms: 300 });
+
+    await expect(Promise.all(calls)).resolves.toEqual(["AP", "AP"]);
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+
+  it("resolves the pending calls with undefined when cancelled", async () => {
+    const clock = createVirtualClock();
+    const func = vi.fn((query: string) => query);
+    const search = debounce(func, 300, { clock });
+
+    const call = search("a");
+    search.cancel();
+    await clock.advance({ ms: 300 });
+
+    await expect(call).resolves.toBeUndefined();
+    expect(func).not.toHaveBeenCalled();
+    expectTypeOf(call).toEqualTypeOf<Promise<string | undefined>>();
+  });
+
+  it("rejects the pending calls when cancelled with rejectOnCancel", async () => {
+    const search = debounce((query: string) => query, 300, {
+      clock: createVirtualClock(),
+      rejectOnCancel: true,
+    });
+
+    const call = search("a");
+    search.cancel();
+
+    await expect(call).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe("throttle", () => {
+  it("resolves the trailing call with undefined when cancelled", async () => {
+    const clock = createVirtualClock();
+    const func = vi.fn((position: number) => position);
+    const save = throttle(func, 1000, { clock });
+
+    await expect(save(1)).resolves.toBe(1);
+    const trailingCall = save(2);
+    save.cancel();
+    await clock.advance({ ms: 1000 });
+
+    await expect(trailingCall).resolves.toBeUndefined();
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("rateLimit", () => {
+  it("queues the calls exceeding the limit and resolves them with undefined when cancelled", async () => {
+    const clock = createVirtualClock();
+    const func = vi.fn((id: number) => id);
+    const getUser = rateLimit(func, { limit: 1, intervalMs: 1000, clock });
+
+    const calls = [getUser(1), getUser(2)];
+    expect(getUser.pending()).toBe(1);
+    getUser.cancel();
+
+    await expect(Promise.all(calls)).resolves.toEqual([1, undefined]);
+    expect(getUser.pending()).toBe(0);
+  });
+
+  it("rejects the queued calls when cancelled with rejectOnCancel", async () => {
+    const getUser = rateLimit((id: number) => id, {
+      limit: 1,
+      intervalMs: 1000,
+      clock: createVirtualClock(),
+      rejectOnCancel: true,
+    });
+
+    const calls = [getUser(1), getUser(2)];
+    getUser.cancel();
+
+    await expect(calls[0]).resolves.toBe(1);
+    await expect(calls[1]).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it("rejects an invalid limit", () => {
+    expect(() => rateLimit(() => 1, { limit: 0, intervalMs: 1000 })).toThrow(
+      RangeError
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import {
+  avg,
+  collect,
+  count,
+  first,
+  groupBy,
+  last,
+  max,
+  min,
+  sum,
+} from "../data-manipulation";
+
+type Sale = { region: string; amount: number; discount: number | null };
+
+const sales: Sale[] = [
+  { region: "EU", amount: 10, discount: null },
+  { region: "US", amount: 7, discount: 2 },
+  { region: "EU", amount: 5, discount: null },
+];
+
+describe("groupBy", () => {
+  it("folds each group with the reducers, in the order of the first rows", () => {
+    const rows = groupBy(sales)
+      .by("region")
+      .aggregate({
+        total: sum("amount"),
+        average: avg("amount"),
+        n: count(),
+        amounts: collect("amount"),
+        firstSale: first(),
+        lastAmount: last("amount"),
+      });
+    expect(rows).toEqual([
+      {
+        region: "EU",
+        total: 15,
+        average: 7.5,
+        n: 2,
+        amounts: [10, 5],
+        firstSale: sales[0],
+        lastAmount: 5,
+      },
+      {
+        region: "US",
+        total: 7,
+        average: 7,
+        n: 1,
+        amounts: [7],
+        firstSale: sales[1],
+        lastAmount: 7,
+      },
+    ]);
+  });
+
+  it("returns undefined from min and max when all values are missing", () => {
+    const [europe, america] = groupBy(sales)
+      .by("region")
+      .aggregate({ lowest: min("discount"), highest: max("discount") });
+    expectTypeOf(europe.lowest).toEqualTypeOf<number | undefined>();
+    expect(europe).toEqual({
+      region: "EU",
+      lowest: undefined,
+      highest: undefined,
+    });
+    expect(america).toEqual({ region: "US", lowest: 2, highest: 2 });
+  });
+
+  it("compares Dates and strings", () => {
+    const events = [
+      { at: new Date("2024-02-01"), name: "b" },
+      { at: new Date("2024-01-01"), name: "a" },
+    ];
+    const [row] = groupBy(events)
+      .by()
+      .aggregate({ earliest: min("at"), lastName: max("name") });
+    expect(row).toEqual({ earliest: new Date("2024-01-01"), lastName: "b" });
+  });
+
+  it("groups keys by type and value", () => {
+    const rows = groupBy([{ key: 1 }, { key: "1" }, { key: 1 }])
+      .by("key")
+      .aggregate({ n: count() });
+    expect(rows).toEqual([
+      { key: 1, n: 2 },
+      { key: "1", n: 1 },
+    ]);
+  });
+});
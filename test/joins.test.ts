@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import {
+  fullOuterJoin,
+  fullOuterJoinStream,
+  innerJoin,
+  innerJoinStream,
+  leftJoinStream,
+} from "../data-manipulation";
+
+const collect = async <V>(rows: AsyncIterable<V>): Promise<V[]> => {
+  const collected: V[] = [];
+  for await (const row of rows) {
+    collected.push(row);
+  }
+  return collected;
+};
+
+/**
+ * An iterable recording how many rows were read, and whether it was closed before its end.
+ */
+const trackedRows = <V>(rows: V[]) => {
+  const state = { closed: false, done: false, read: 0 };
+  const iterable: Iterable<V> = {
+    [Symbol.iterator]: () => ({
+      next: () => {
+        if (state.read < rows.length) {
+          return { done: false, value: rows[state.read++] };
+        }
+        state.done = true;
+        return { done: true, value: undefined };
+      },
+      return: () => {
+        state.closed = true;
+        return { done: true, value: undefined };
+      },
+    }),
+  };
+  return { iterable, state };
+};
+
+describe("synchronous joins", () => {
+  const persons = [
+    { id: 1, name: "Alice" },
+    { id: 2, name: "Bob" },
+  ];
+  const orders = [
+    { orderId: 101, customerId: "1" },
+    { orderId: 102, customerId: 3 },
+  ];
+
+  it("matches keys by their String() value unless the equality is strict", () => {
+    expect(
+      innerJoin(persons).in(orders).with("id").matching("customerId")
+    ).toHaveLength(1);
+    expect(
+      innerJoin(persons)
+        .in(orders)
+        .with("id")
+        .matching("customerId", { keyEquality: "strict" })
+    ).toEqual([]);
+  });
+
+  it("keeps the unmatched rows of both sides in a full outer join", () => {
+    const rows = fullOuterJoin(persons)
+      .in(orders)
+      .with("id")
+      .matching("customerId");
+    expect(rows).toHaveLength(3);
+  });
+});
+
+describe("streaming joins", () => {
+  const customers = [
+    { id: 1, name: "Alice" },
+    { id: 2, name: "Bob" },
+    { id: 3, name: "Carol" },
+  ];
+  const orders = [
+    { orderId: 101, customerId: 1 },
+    { orderId: 102, customerId: "2" },
+    { orderId: 103, customerId: 3 },
+  ];
+
+  it("applies strict key equality the same way with both strategies", async () => {
+    for (const strategy of ["hash", "sortMerge"] as const) {
+      // Sorted by type first: numbers, then strings
+      const strictOrders = [orders[0], orders[2], orders[1]];
+      const rows = await collect(
+        innerJoinStream(customers)
+          .in(strictOrders)
+          .with("id")
+          .matching("customerId", { strategy, keyEquality: "strict" })
+      );
+      expect(rows.map((row) => row.orderId)).toEqual([101, 103]);
+    }
+  });
+
+  it("matches loose keys with the sort-merge strategy", async () => {
+    const rows = await collect(
+      innerJoinStream(customers)
+        .in(orders)
+        .with("id")
+        .matching("customerId", { strategy: "sortMerge" })
+    );
+    expect(rows.map((row) => row.orderId)).toEqual([101, 102, 103]);
+  });
+
+  it("orders numeric keys by value in a sort-merge join", async () => {
+    const source = [{ id: 2 }, { id: 10 }];
+    const target = [{ ref: 2 }, { ref: 9 }, { ref: 10 }];
+    const rows = await collect(
+      fullOuterJoinStream(source)
+        .in(target)
+        .with("id")
+        .matching("ref", { strategy: "sortMerge", nestAs: "target" })
+    );
+    expect(rows).toHaveLength(3);
+  });
+
+  it("rejects key values a sort-merge join cannot order", async () => {
+    const rows = leftJoinStream([{ id: 1 }, { id: undefined }])
+      .in([{ ref: 1 }])
+      .with("id")
+      .matching("ref", { strategy: "sortMerge" });
+    await expect(collect(rows)).rejects.toThrow(TypeError);
+  });
+
+  it("rejects unsorted inputs and closes both of them", async () => {
+    const source = trackedRows([{ id: 2 }, { id: 1 }, { id: 3 }]);
+    const target = trackedRows([{ ref: 1 }, { ref: 2 }, { ref: 3 }]);
+    const rows = innerJoinStream(source.iterable)
+      .in(target.iterable)
+      .with("id")
+      .matching("ref", { strategy: "sortMerge" });
+    await expect(collect(rows)).rejects.toThrow(/sorted ascending/);
+    expect(source.state.closed).toBe(true);
+    expect(target.state.read).toBe(0);
+  });
+
+  it("closes both inputs when the consumer stops early", async () => {
+    for (const strategy of ["hash", "sortMerge"] as const) {
+      const source = trackedRows(customers);
+      const target = trackedRows(
+        orders.filter((order) => order.customerId !== "2")
+      );
+      const rows = innerJoinStream(source.iterable)
+        .in(target.iterable)
+        .with("id")
+        .matching("customerId", { strategy });
+      for await (const row of rows) {
+        expect(row.orderId).toBe(101);
+        break;
+      }
+      for (const { state } of [source, target]) {
+        expect(state.closed || state.done).toBe(true);
+      }
+    }
+    const source = trackedRows(customers);
+    const rows = innerJoinStream(source.iterable)
+      .in(orders)
+      .with("id")
+      .matching("customerId", { strategy: "sortMerge" });
+    for await (const row of rows) {
+      expect(row.orderId).toBe(101);
+      break;
+    }
+    expect(source.state.closed).toBe(true);
+  });
+
+  it("only reads the build side fully with the hash strategy", async () => {
+    const source = trackedRows(customers);
+    const target = trackedRows(orders);
+    const rows = innerJoinStream(source.iterable)
+      .in(target.iterable)
+      .with("id")
+      .matching("customerId");
+    const iterator = rows[Symbol.asyncIterator]();
+    await iterator.next();
+    expect(target.state.read).toBe(orders.length);
+    expect(source.state.read).toBe(1);
+    await iterator.return(undefined);
+  });
+
+  it("indexes the smaller side when the sizes of both inputs are known", async () => {
+    const source = trackedRows(customers.slice(0, 1));
+    const target = trackedRows(orders);
+    const rows = innerJoinStream(Object.assign(source.iterable, { length: 1 }))
+      .in(Object.assign(target.iterable, { length: orders.length }))
+      .with("id")
+      .matching("customerId");
+    const iterator = rows[Symbol.asyncIterator]();
+    expect((await iterator.next()).value).toEqual({
+      id: 1,
+      name: "Alice",
+      orderId: 101,
+      customerId: 1,
+    });
+    expect(source.state.done).toBe(true);
+    expect(target.state.read).toBe(1);
+    await iterator.return(undefined);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyPatch,
+  diff,
+  invertPatch,
+  JsonPatchError,
+  JsonPatchOperation,
+} from "../json-patch";
+
+describe("diff", () => {
+  it("produces a patch turning one document into the other, with moves", () => {
+    const before = { name: "Ada", tags: ["a", "b", "c"] };
+    const after = { name: "Ada Lovelace", tags: ["c", "a", "b"] };
+    const patch = diff(before, after);
+
+    expect(patch).toEqual([
+      { op: "replace", path: "/name", value: "Ada Lovelace" },
+      { op: "move", from: "/tags/2", path: "/tags/0" },
+    ]);
+    expect(applyPatch(before, patch)).toEqual(after);
+  });
+
+  it("patches items in place when they are identified by id", () => {
+    const before = [
+      { id: 1, name: "Ada" },
+      { id: 2, name: "Alan" },
+    ];
+    const after = [
+      { id: 2, name: "Alan Turing" },
+      { id: 1, name: "Ada" },
+    ];
+
+    for (const arrayItemId of [
+      "id",
+      (item: unknown) =>
+        typeof item === "object" && item !== null && "id" in item
+          ? item.id
+          : undefined,
+    ]) {
+      const patch = diff(before, after, { arrayItemId });
+      expect(patch).toEqual([
+        { op: "move", from: "/1", path: "/0" },
+        { op: "replace", path: "/0/name", value: "Alan Turing" },
+      ]);
+      expect(applyPatch(before, patch)).toEqual(after);
+    }
+  });
+
+  it("treats properties holding undefined as missing", () => {
+    expect(diff({ a: 1, b: undefined }, { a: 1 })).toEqual([]);
+  });
+});
+
+describe("applyPatch", () => {
+  it("leaves the document untouched and shares the unpatched branches", () => {
+    const document = { user: { name: "Ada" }, settings: { theme: "dark" } };
+    const patched = applyPatch(document, [
+      { op: "add", path: "/user/roles", value: ["admin"] },
+    ]);
+
+    expect(document.user).toEqual({ name: "Ada" });
+    expect(patched.settings).toBe(document.settings);
+  });
+
+  it("patches below a __proto__ key of a parsed document without changing any prototype", () => {
+    const document = JSON.parse('{"__proto__": {"role": "user"}}');
+    const patched = applyPatch(document, [
+      { op: "replace", path: "/__proto__/role", value: "admin" },
+    ]);
+
+    expect(Object.getPrototypeOf(patched)).toBe(Object.prototype);
+    expect(
+      Object.getOwnPropertyDescriptor(patched, "__proto__")?.value
+    ).toEqual({
+      role: "admin",
+    });
+    expect(({} as { role?: string }).role).toBeUndefined();
+  });
+
+  it("appends to arrays with the - segment", () => {
+    expect(
+      applyPatch({ items: [1] }, [{ op: "add", path: "/items/-", value: 2 }])
+    ).toEqual({ items: [1, 2] });
+  });
+
+  it.each<[string, JsonPatchOperation[]]>([
+    ["a failing test", [{ op: "test", path: "/a", value: 2 }]],
+    ["a missing location", [{ op: "remove", path: "/b" }]],
+    ["an index out of bounds", [{ op: "replace", path: "/list/3", value: 0 }]],
+    ["a path without a leading slash", [{ op: "remove", path: "a" }]],
+    ["a move into a child", [{ op: "move", from: "/list", path: "/list/0" }]],
+    [
+      "an unknown operation",
+      [{ op: "merge", path: "/a" } as unknown as JsonPatchOperation],
+    ],
+  ])("rejects %s with a JsonPatchError", (_, operations) => {
+    const error = (() => {
+      try {
+        applyPatch({ a: 1, list: [0] }, operations);
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(error).toBeInstanceOf(JsonPatchError);
+    expect((error as JsonPatchError).index).toBe(0);
+  });
+});
+
+describe("invertPatch", () => {
+  it("undoes a patch", () => {
+    const before = { items: [1, 2], meta: { version: 1 } };
+    const patch: JsonPatchOperation[] = [
+      { op: "add", path: "/items/-", value: 3 },
+      { op: "move", from: "/items/0", path: "/items/2" },
+      { op: "replace", path: "/meta/version", value: 2 },
+      { op: "copy", from: "/meta", path: "/previous" },
+      { op: "remove", path: "/items/0" },
+    ];
+    const undo = invertPatch(before, patch);
+
+    expect(applyPatch(applyPatch(before, patch), undo)).toEqual(before);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  circuitBreaker,
+  CircuitOpenError,
+  promisePool,
+  retry,
+} from "../async-data";
+import { createVirtualClock } from "../clock";
+
+const deferred = <T>() => {
+  let resolve: (value: T) => void = () => {};
+  let reject: (error: unknown) => void = () => {};
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe("retry", () => {
+  it("retries failed attempts until one succeeds", async () => {
+    const fn = vi.fn(async (attempt: number) => {
+      if (attempt < 3) {
+        throw new Error(`attempt ${attempt}`);
+      }
+      return attempt;
+    });
+    await expect(retry(fn, { initialDelayMs: 0 })).resolves.toBe(3);
+  });
+
+  it("rethrows the last error once the attempts are exhausted", async () => {
+    const fn = vi.fn(async (attempt: number) => {
+      throw new Error(`attempt ${attempt}`);
+    });
+    await expect(
+      retry(fn, { maxAttempts: 2, initialDelayMs: 0 })
+    ).rejects.toThrow("attempt 2");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects once its signal is aborted, even if the attempt ignores it", async () => {
+    const controller = new AbortController();
+    const reason = new Error("stopped");
+    const result = retry(() => new Promise<never>(() => {}), {
+      signal: controller.signal,
+    });
+    controller.abort(reason);
+    await expect(result).rejects.toBe(reason);
+  });
+
+  it("times out attempts that ignore their signal", async () => {
+    const clock = createVirtualClock();
+    const result = retry(() => new Promise<never>(() => {}), {
+      maxAttempts: 1,
+      timeoutMs: 1000,
+      clock,
+    });
+    const assertion = expect(result).rejects.toThrow("1000");
+    await clock.advance({ ms: 1000 });
+    await assertion;
+  });
+});
+
+describe("circuitBreaker", () => {
+  it("opens after consecutive failures and rejects until the cool-down has elapsed", async () => {
+    const clock = createVirtualClock();
+    const fn = vi.fn(async () => {
+      throw new Error("unavailable");
+    });
+    const protectedFn = circuitBreaker(fn, {
+      failureThreshold: 2,
+      coolDownMs: 1000,
+      clock,
+    });
+
+    await expect(protectedFn()).rejects.toThrow("unavailable");
+    await expect(protectedFn()).rejects.toThrow("unavailable");
+    const error = await protectedFn().catch((error) => error);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAt).toBe(clock.now() + 1000);
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    await clock.advance({ ms: 1000 });
+    expect(protectedFn.getState()).toBe("halfOpen");
+  });
+
+  it("ignores the outcome of calls started before the circuit became half-open", async () => {
+    const clock = createVirtualClock();
+    const pending = deferred<string>();
+    let calls = 0;
+    const protectedFn = circuitBreaker(
+      async () => {
+        calls++;
+        if (calls === 1) {
+          return pending.promise;
+        }
+        if (calls === 2) {
+          throw new Error("unavailable");
+        }
+        return new Promise<string>(() => {});
+      },
+      { failureThreshold: 1, coolDownMs: 1000, clock }
+    );
+
+    const slowCall = protectedFn();
+    await expect(protectedFn()).rejects.toThrow("unavailable");
+    await clock.advance({ ms: 1000 });
+    void protectedFn();
+    expect(protectedFn.getState()).toBe("halfOpen");
+
+    pending.resolve("late");
+    await expect(slowCall).resolves.toBe("late");
+    expect(protectedFn.getState()).toBe("halfOpen");
+
+    const error = await protectedFn().catch((error) => error);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAt).toBeUndefined();
+  });
+
+  it("does not count stale trial calls once the circuit has opened again", async () => {
+    const clock = createVirtualClock();
+    const trials = [deferred<string>(), deferred<string>()];
+    let calls = 0;
+    const onStateChange = vi.fn();
+    const protectedFn = circuitBreaker(
+      async () => {
+        calls++;
+        if (calls === 1) {
+          throw new Error("unavailable");
+        }
+        return trials[calls - 2].promise;
+      },
+      {
+        failureThreshold: 1,
+        coolDownMs: 1000,
+        halfOpenMaxCalls: 2,
+        clock,
+        onStateChange,
+      }
+    );
+
+    await expect(protectedFn()).rejects.toThrow("unavailable");
+    await clock.advance({ ms: 1000 });
+    const first = protectedFn();
+    const second = protectedFn();
+    trials[0].reject(new Error("still unavailable"));
+    await expect(first).rejects.toThrow("still unavailable");
+    trials[1].resolve("recovered");
+    await expect(second).resolves.toBe("recovered");
+
+    expect(protectedFn.getState()).toBe("open");
+    expect(onStateChange.mock.calls.map(([state]) => state)).toEqual([
+      "open",
+      "halfOpen",
+      "open",
+    ]);
+  });
+});
+
+describe("promisePool", () => {
+  it("starts a task as soon as one settles, never running more than the concurrency", async () => {
+    const pending = [
+      deferred<number>(),
+      deferred<number>(),
+      deferred<number>(),
+    ];
+    const started: number[] = [];
+    const pool = promisePool(
+      pending.map((task, index) => () => {
+        started.push(index);
+        return task.promise;
+      }),
+      { concurrency: 2 }
+    );
+
+    expect(started).toEqual([0, 1]);
+    pending[1].resolve(1);
+    await vi.waitFor(() => expect(started).toEqual([0, 1, 2]));
+    pending[2].reject(new Error("failed"));
+    pending[0].resolve(0);
+
+    await expect(pool).resolves.toEqual([
+      { status: "fulfilled", value: 0 },
+      { status: "fulfilled", value: 1 },
+      { status: "rejected", reason: new Error("failed") },
+    ]);
+  });
+
+  it("stops at the first failure in fail-fast mode, aborting the running tasks", async () => {
+    const signals: AbortSignal[] = [];
+    const started = vi.fn();
+    const failure = new Error("failed");
+    const pool = promisePool<number>(
+      [
+        (signal) => {
+          signals.push(signal);
+          return new Promise(() => {});
+        },
+        () => Promise.reject(failure),
+        () => {
+          started();
+          return 2;
+        },
+      ],
+      { concurrency: 2, mode: "failFast" }
+    );
+
+    await expect(pool).rejects.toBe(failure);
+    expect(signals[0].aborted).toBe(true);
+    expect(started).not.toHaveBeenCalled();
+  });
+
+  it("rejects with the reason of the signal once aborted", async () => {
+    const controller = new AbortController();
+    const started = vi.fn();
+    const pool = promisePool([() => new Promise<never>(() => {}), started], {
+      concurrency: 1,
+      signal: controller.signal,
+    });
+
+    controller.abort("stopped");
+    await expect(pool).rejects.toBe("stopped");
+    expect(started).not.toHaveBeenCalled();
+  });
+
+  it("rejects a concurrency that is not a positive integer", async () => {
+    await expect(promisePool([], { concurrency: 0 })).rejects.toBeInstanceOf(
+      RangeError
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { asyncCache } from "../async-data";
+import { stableStringify } from "../data-manipulation";
+
+describe("stableStringify", () => {
+  it("ignores the order of object keys, Set members and Map entries", () => {
+    expect(stableStringify({ a: 1, b: [2] })).toBe(
+      stableStringify({ b: [2], a: 1 })
+    );
+    expect(stableStringify(new Set([1, 2]))).toBe(
+      stableStringify(new Set([2, 1]))
+    );
+    expect(
+      stableStringify(
+        new Map([
+          ["a", 1],
+          ["b", 2],
+        ])
+      )
+    ).toBe(
+      stableStringify(
+        new Map([
+          ["b", 2],
+          ["a", 1],
+        ])
+      )
+    );
+  });
+
+  it("tells 0 and -0 apart", () => {
+    expect(stableStringify(-0)).not.toBe(stableStringify(0));
+    expect(stableStringify([NaN])).toBe(stableStringify([NaN]));
+  });
+
+  it("serializes objects with a toJSON method by its result", () => {
+    expect(stableStringify(new URL("https://example.com/a"))).not.toBe(
+      stableStringify(new URL("https://example.com/b"))
+    );
+    expect(stableStringify(new URL("https://example.com/a"))).toBe(
+      stableStringify(new URL("https://example.com/a"))
+    );
+  });
+
+  it("serializes errors, boxed primitives and buffers by their content", () => {
+    expect(stableStringify(new Error("a"))).not.toBe(
+      stableStringify(new Error("b"))
+    );
+    expect(stableStringify(new TypeError("a"))).not.toBe(
+      stableStringify(new Error("a"))
+    );
+    expect(stableStringify(new Error("a"))).toBe(
+      stableStringify(new Error("a"))
+    );
+    expect(stableStringify(new Number(1))).not.toBe(
+      stableStringify(new Number(2))
+    );
+    expect(stableStringify(new Uint8Array([1]).buffer)).not.toBe(
+      stableStringify(new Uint8Array([2]).buffer)
+    );
+  });
+
+  it("serializes functions, symbols and opaque objects by identity", () => {
+    const first = () => 1;
+    const second = () => 2;
+    expect(stableStringify(first)).toBe(stableStringify(first));
+    expect(stableStringify(first)).not.toBe(stableStringify(second));
+    expect(stableStringify(Symbol("a"))).not.toBe(stableStringify(Symbol("a")));
+    expect(stableStringify(Symbol.for("a"))).toBe(
+      stableStringify(Symbol.for("a"))
+    );
+    expect(stableStringify(new WeakMap())).not.toBe(
+      stableStringify(new WeakMap())
+    );
+  });
+
+  it("serializes circular references without throwing", () => {
+    const node: { next?: unknown } = {};
+    node.next = node;
+    expect(stableStringify(node)).toBe('{"next":Circular(1)}');
+  });
+
+  it("gives distinct asyncCache keys to calls with distinct URLs", async () => {
+    const cached = asyncCache(async (url: URL) => url.pathname);
+    await expect(cached(new URL("https://example.com/a"))).resolves.toBe("/a");
+    await expect(cached(new URL("https://example.com/b"))).resolves.toBe("/b");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { avg, count, first, last, sum, timeSeries } from "../data-manipulation";
+
+const orders = [
+  { placedAt: "2024-01-12", amount: 10 },
+  { placedAt: "2024-03-02", amount: 25 },
+  { placedAt: "2024-03-20", amount: 5 },
+];
+
+describe("timeSeries", () => {
+  it("fills the empty buckets and compares each bucket with the previous one", () => {
+    const monthly = timeSeries(orders, {
+      date: (order) => order.placedAt,
+      granularity: "month",
+      aggregate: { revenue: sum("amount"), orders: count() },
+      compare: ["previous"],
+    });
+
+    expect(
+      monthly.map(({ bucket, revenue, records, previous }) => [
+        bucket.toISOString().slice(0, 7),
+        revenue,
+        records,
+        previous?.revenue.change,
+      ])
+    ).toEqual([
+      ["2024-01", 10, 1, 10],
+      ["2024-02", 0, 0, -10],
+      ["2024-03", 30, 2, 30],
+    ]);
+  });
+
+  it("uses the fill values for empty buckets", () => {
+    const monthly = timeSeries(orders, {
+      date: (order) => order.placedAt,
+      granularity: "month",
+      aggregate: { revenue: sum("amount") },
+      fill: { revenue: -1 },
+    });
+    expect(monthly.map(({ revenue }) => revenue)).toEqual([10, -1, 30]);
+  });
+
+  it("gives undefined for the first and last values and NaN for the average of an empty bucket", () => {
+    const monthly = timeSeries(orders, {
+      date: (order) => order.placedAt,
+      granularity: "month",
+      aggregate: {
+        firstAmount: first("amount"),
+        lastAmount: last("amount"),
+        firstOrder: first(),
+        average: avg("amount"),
+      },
+    });
+    expect(monthly[1]).toMatchObject({
+      firstAmount: undefined,
+      lastAmount: undefined,
+      firstOrder: undefined,
+      average: NaN,
+    });
+    expect(monthly[2]).toMatchObject({
+      firstAmount: 25,
+      lastAmount: 5,
+      firstOrder: orders[1],
+      average: 15,
+    });
+  });
+
+  it("returns no bucket for no records", () => {
+    expect(
+      timeSeries([] as typeof orders, {
+        date: (order) => order.placedAt,
+        granularity: "day",
+        aggregate: { orders: count() },
+      })
+    ).toEqual([]);
+  });
+
+  it("rejects records whose date is not valid", () => {
+    expect(() =>
+      timeSeries([...orders, { placedAt: "", amount: 1 }], {
+        date: (order) => order.placedAt,
+        granularity: "month",
+        aggregate: { orders: count() },
+      })
+    ).toThrow(
+      new RangeError("The date of the record at index 3 is not a valid date.")
+    );
+  });
+
+  it("rejects an invalid range", () => {
+    expect(() =>
+      timeSeries(orders, {
+        date: (order) => order.placedAt,
+        granularity: "month",
+        aggregate: { orders: count() },
+        end: new Date("not a date"),
+      })
+    ).toThrow(RangeError);
+  });
+});
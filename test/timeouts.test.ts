@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  AllFailedError,
+  createDeadline,
+  firstSuccessful,
+  raceWithCancel,
+  TimeoutError,
+  withTimeout,
+} from "../async-data";
+import { createVirtualClock } from "../clock";
+
+const never = <T>() => new Promise<T>(() => {});
+
+describe("withTimeout", () => {
+  it("aborts a task exceeding the time limit and resolves with the fallback", async () => {
+    const clock = createVirtualClock();
+    let taskSignal: AbortSignal | undefined;
+    const result = withTimeout(
+      (signal) => {
+        taskSignal = signal;
+        return never<string[]>();
+      },
+      { seconds: 2 },
+      { fallback: () => [], clock }
+    );
+
+    await clock.advance({ seconds: 2 });
+    await expect(result).resolves.toEqual([]);
+    expect(taskSignal?.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  it("settles like the promise when it settles in time", async () => {
+    const clock = createVirtualClock();
+    await expect(withTimeout(Promise.resolve(1), 100, { clock })).resolves.toBe(
+      1
+    );
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it("rejects right away with the reason of an aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort("stopped");
+    await expect(
+      withTimeout(never(), 100, { signal: controller.signal })
+    ).rejects.toBe("stopped");
+  });
+});
+
+describe("createDeadline", () => {
+  it("never lets a child outlive its parent", async () => {
+    const clock = createVirtualClock();
+    const deadline = createDeadline({ seconds: 5 }, { clock });
+    await clock.advance({ seconds: 4 });
+
+    const child = deadline.child({ seconds: 2 });
+    expect(child.remaining()).toBe(1000);
+    await clock.advance({ seconds: 1 });
+
+    expect(deadline.remaining()).toBe(0);
+    expect(deadline.signal.reason).toBeInstanceOf(TimeoutError);
+    expect(child.signal.aborted).toBe(true);
+  });
+
+  it("runs tasks within the time left", async () => {
+    const clock = createVirtualClock();
+    const deadline = createDeadline(1000, { clock });
+    const result = deadline.run(() => never());
+    const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError);
+    await clock.advance(1000);
+    await assertion;
+  });
+
+  it("is aborted along with its signal", () => {
+    const controller = new AbortController();
+    controller.abort("stopped");
+    const deadline = createDeadline(1000, {
+      signal: controller.signal,
+      clock: createVirtualClock(),
+    });
+    expect(deadline.signal.reason).toBe("stopped");
+  });
+});
+
+describe("firstSuccessful", () => {
+  it("resolves with the first success and aborts the other tasks", async () => {
+    let slowSignal: AbortSignal | undefined;
+    const result = await firstSuccessful([
+      Promise.reject(new Error("down")),
+      (signal) => {
+        slowSignal = signal;
+        return never<string>();
+      },
+      () => "fast",
+    ]);
+    expect(result).toBe("fast");
+    expect(slowSignal?.aborted).toBe(true);
+  });
+
+  it("collects the errors in input order when every task fails", async () => {
+    const error = await firstSuccessful([
+      () => Promise.reject("a"),
+      () => {
+        throw "b";
+      },
+    ]).catch((error) => error);
+    expect(error).toBeInstanceOf(AllFailedError);
+    expect(error.errors).toEqual(["a", "b"]);
+  });
+
+  it("rejects when there is no task", async () => {
+    await expect(firstSuccessful([])).rejects.toBeInstanceOf(AllFailedError);
+  });
+});
+
+describe("raceWithCancel", () => {
+  it("settles like the first task to settle", async () => {
+    await expect(
+      raceWithCancel([() => never<number>(), () => Promise.reject("first")])
+    ).rejects.toBe("first");
+  });
+});
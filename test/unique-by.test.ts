@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  canonicalHash,
+  deepEqual,
+  removeDuplicatesFromArray,
+  stableStringify,
+  uniqueBy,
+} from "../data-manipulation";
+
+describe("uniqueBy", () => {
+  it("keeps the first or last item of each key and reports the dropped ones", () => {
+    const users = [
+      { id: 1, name: "Alice" },
+      { id: 2, name: "Bob" },
+      { id: 1, name: "Alicia" },
+    ];
+    expect(uniqueBy(users, "id").map((user) => user.name)).toEqual([
+      "Alice",
+      "Bob",
+    ]);
+    expect(
+      uniqueBy(users, "id", { onDuplicate: "keepLast" }).map(
+        (user) => user.name
+      )
+    ).toEqual(["Bob", "Alicia"]);
+    expect(
+      uniqueBy(users, "id", { reportDuplicates: true }).duplicates
+    ).toEqual([{ item: users[2], index: 2, keptIndex: 0 }]);
+  });
+
+  it("tells apart keys that deepEqual tells apart", () => {
+    const keys = [
+      new Error("a"),
+      new Error("b"),
+      new URL("https://example.com/a"),
+      new URL("https://example.com/b"),
+      { a: undefined },
+      {},
+      { [Symbol.for("a")]: 1 },
+      Object.assign([1], { extra: true }),
+      [1],
+      [-0],
+      [0],
+    ];
+    expect(
+      uniqueBy(
+        keys.map((id) => ({ id })),
+        "id"
+      )
+    ).toHaveLength(keys.length);
+  });
+
+  it("matches keys that deepEqual considers equal", () => {
+    const pairs: [unknown, unknown][] = [
+      [new Error("a"), new Error("a")],
+      [
+        { a: 1, b: new Set([1, 2]) },
+        { b: new Set([2, 1]), a: 1 },
+      ],
+      [new Map([[{ x: 1 }, "a"]]), new Map([[{ x: 1 }, "a"]])],
+      [[NaN], [NaN]],
+    ];
+    for (const [left, right] of pairs) {
+      expect(deepEqual(left, right)).toBe(true);
+      expect(stableStringify(left)).toBe(stableStringify(right));
+      expect(uniqueBy([{ id: left }, { id: right }], "id")).toHaveLength(1);
+    }
+  });
+
+  it("only matches functions with themselves", () => {
+    const compare = () => 0;
+    const keys = [compare, () => 0, compare];
+    expect(uniqueBy(keys, (key) => ({ key }))).toEqual([compare, keys[1]]);
+  });
+});
+
+describe("removeDuplicatesFromArray", () => {
+  it("removes structurally equal objects and equal primitives", () => {
+    const data = [
+      new Set([1, 2]),
+      new Set([2, 1]),
+      { a: 1 },
+      { a: 1 },
+      1,
+      1,
+      "1",
+    ];
+    expect(removeDuplicatesFromArray(data)).toEqual([
+      new Set([1, 2]),
+      { a: 1 },
+      1,
+      "1",
+    ]);
+  });
+});
+
+describe("canonicalHash", () => {
+  it("hashes equal values the same way and distinct errors differently", () => {
+    expect(canonicalHash({ a: 1, b: 2 })).toBe(canonicalHash({ b: 2, a: 1 }));
+    expect(canonicalHash(new Error("a"))).not.toBe(
+      canonicalHash(new Error("b"))
+    );
+    expect(canonicalHash("value")).toMatch(/^[0-9a-f]{16}$/);
+  });
+});